@@ -0,0 +1,190 @@
+/**
+ * Config — settings for this package, from `hh-read.json` files.
+ *
+ * Read from pi's agent directory (`~/.pi/agent/hh-read.json`) and from the
+ * project (`<cwd>/.pi/hh-read.json`); project settings override global ones
+ * section by section. Files are re-read on every use, so edits take effect
+ * without restarting pi. Each known key's type is checked as a file is read,
+ * so a bad value is reported with the file and key rather than where it's used.
+ *
+ * Example:
+ *
+ *   {
+ *     "approval": {
+ *       "paths": ["migrations/", "*.sql"],
+ *       "overwrite": true
+ *     },
+ *     "policy": {
+ *       "deny": [".git/", "*.lock"]
+ *     },
+ *     "tools": {
+ *       "disable": ["edit"]
+ *     },
+ *     "hashes": {
+ *       "readChangeFile": true
+ *     }
+ *   }
+ */
+
+import { getAgentDir } from "@mariozechner/pi-coding-agent";
+import { readFileSync } from "node:fs";
+import * as path from "node:path";
+import { HASH_WIDTHS } from "./hashline.js";
+
+// No-op extension export — see hashline.ts.
+export default function () {}
+
+export interface ApprovalConfig {
+	/** Ask before every change_file write. */
+	always?: boolean;
+	/** Ask before writes to files matching these globs (relative to the project root, see glob.ts). */
+	paths?: string[];
+	/** Ask before change_file overwrites an existing file (create/overwrite mode). */
+	overwrite?: boolean;
+}
+
+export interface PolicyConfig {
+	/** Directories change_file may write under, relative to the project root. Default: ["."] */
+	roots?: string[];
+	/** Globs (relative to the project root, see glob.ts) change_file may never write. Default: [".git/"] */
+	deny?: string[];
+	/** Also refuse to read paths matching `deny`. Default: false */
+	denyRead?: boolean;
+	/** Check roots and deny against the real path behind symlinks as well. Default: true */
+	resolveSymlinks?: boolean;
+	/** Refuse to overwrite an existing file that was not read with change_file: true first. Default: true */
+	readBeforeOverwrite?: boolean;
+}
+
+export interface ValidatorConfig {
+	/** Globs of the files to validate (see glob.ts), e.g. ["*.ts"]. */
+	files: string[];
+	/** A built-in check: "json", "yaml" or "typescript" (syntax only). */
+	builtin?: string;
+	/**
+	 * Or a shell command run in the project root, failing on a non-zero exit.
+	 * `{file}` is replaced by the file's path, which is appended if absent.
+	 */
+	command?: string;
+	/** Shown in results. Default: the builtin name or the command. */
+	name?: string;
+	/** Restore the file's content from before the edit if this validator reports errors. */
+	revert_on_error?: boolean;
+	/** Command timeout in ms. Default: 30000 */
+	timeout?: number;
+}
+
+export interface ToolsConfig {
+	/** Tools to activate at session start (see tweaks.ts). A tool in both lists is activated. Default: ["grep"] */
+	enable?: string[];
+	/** Tools to deactivate at session start. Default: ["edit", "write"], in favor of change_file */
+	disable?: string[];
+}
+
+export interface HashesConfig {
+	/** Tag lines with hashes when read is called without change_file. Default: false */
+	readChangeFile?: boolean;
+	/** Narrowest hash width (2, 3 or 4); files whose lines collide at it get wider hashes. Default: 2 */
+	width?: number;
+}
+
+export interface Config {
+	approval: ApprovalConfig;
+	policy: PolicyConfig;
+	tools: ToolsConfig;
+	hashes: HashesConfig;
+	/** Post-edit validators, or true for the built-in checks in validate.ts. Default: none */
+	validators?: ValidatorConfig[] | boolean;
+}
+
+export const CONFIG_FILE = "hh-read.json";
+
+/** Merged global and project config for `cwd`. Throws on malformed files. */
+export function loadConfig(cwd: string): Config {
+	const global = readConfigFile(path.join(getAgentDir(), CONFIG_FILE));
+	const project = readConfigFile(path.join(cwd, ".pi", CONFIG_FILE));
+	return {
+		approval: { ...global.approval, ...project.approval },
+		policy: { ...global.policy, ...project.policy },
+		tools: { ...global.tools, ...project.tools },
+		hashes: { ...global.hashes, ...project.hashes },
+		validators: project.validators ?? global.validators,
+	};
+}
+
+function readConfigFile(file: string): Partial<Config> {
+	let text: string;
+	try {
+		text = readFileSync(file, "utf-8");
+	} catch {
+		return {};
+	}
+	try {
+		const parsed = JSON.parse(text);
+		if (!isObject(parsed)) throw new Error("expected an object");
+		checkConfig(parsed);
+		return parsed;
+	} catch (err) {
+		throw new Error(`Invalid config in ${file}: ${err instanceof Error ? err.message : String(err)}`);
+	}
+}
+
+/** What a config value must be. */
+interface Expected {
+	describe: string;
+	test: (value: unknown) => boolean;
+}
+
+const BOOLEAN: Expected = { describe: "true or false", test: (v) => typeof v === "boolean" };
+const STRING: Expected = { describe: "a string", test: (v) => typeof v === "string" };
+const STRINGS: Expected = { describe: "an array of strings", test: (v) => Array.isArray(v) && v.every((s) => typeof s === "string") };
+const DURATION: Expected = { describe: "a positive number of milliseconds", test: (v) => typeof v === "number" && v > 0 };
+const WIDTH: Expected = {
+	describe: `${HASH_WIDTHS.slice(0, -1).join(", ")} or ${HASH_WIDTHS.at(-1)}`,
+	test: (v) => HASH_WIDTHS.includes(v as number),
+};
+
+/** The known keys of each section. Unknown keys are ignored. */
+const SECTIONS: Record<string, Record<string, Expected>> = {
+	approval: { always: BOOLEAN, paths: STRINGS, overwrite: BOOLEAN },
+	policy: { roots: STRINGS, deny: STRINGS, denyRead: BOOLEAN, resolveSymlinks: BOOLEAN, readBeforeOverwrite: BOOLEAN },
+	tools: { enable: STRINGS, disable: STRINGS },
+	hashes: { readChangeFile: BOOLEAN, width: WIDTH },
+};
+
+const VALIDATOR_KEYS: Record<string, Expected> = {
+	files: STRINGS, builtin: STRING, command: STRING, name: STRING, revert_on_error: BOOLEAN, timeout: DURATION,
+};
+
+function isObject(value: unknown): value is Record<string, unknown> {
+	return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+/** Throw on the first known key whose value has the wrong type, naming it. */
+function checkConfig(config: Record<string, unknown>): void {
+	for (const [section, keys] of Object.entries(SECTIONS)) {
+		if (config[section] === undefined) continue;
+		checkKeys(config[section], keys, section);
+	}
+
+	const { validators } = config;
+	if (validators === undefined || typeof validators === "boolean") return;
+	if (!Array.isArray(validators)) {
+		throw new Error(`validators must be true, false or an array of validators (got ${JSON.stringify(validators)})`);
+	}
+	validators.forEach((validator: unknown, i) => {
+		const at = `validators[${i}]`;
+		checkKeys(validator, VALIDATOR_KEYS, at);
+		if (validator.files === undefined) throw new Error(`${at}.files is missing`);
+		if (validator.builtin === undefined && validator.command === undefined) throw new Error(`${at} needs a builtin or a command`);
+	});
+}
+
+function checkKeys(value: unknown, keys: Record<string, Expected>, at: string): asserts value is Record<string, unknown> {
+	if (!isObject(value)) throw new Error(`${at} must be an object (got ${JSON.stringify(value)})`);
+	for (const [key, expected] of Object.entries(keys)) {
+		if (value[key] !== undefined && !expected.test(value[key])) {
+			throw new Error(`${at}.${key} must be ${expected.describe} (got ${JSON.stringify(value[key])})`);
+		}
+	}
+}
@@ -0,0 +1,181 @@
+/**
+ * Line diff — Myers O(ND) diff between two versions of a file.
+ *
+ * Produces a flat list of entries (removed / added / context) that
+ * edit-file.ts folds into pi's edit-tool diff format. Common prefix and
+ * suffix are trimmed first, so the cost scales with the edited region
+ * rather than the file size.
+ */
+
+// No-op extension export — see hashline.ts.
+export default function () {}
+
+export interface DiffEntry {
+	/** r = removed, a = added, c = unchanged context */
+	type: "r" | "a" | "c";
+	/** 1-indexed line number: old file for r/c, new file for a. */
+	line: number;
+	text: string;
+}
+
+/** Diff two line arrays. Returns every line of both files as an entry. */
+export function diffLines(oldLines: string[], newLines: string[]): DiffEntry[] {
+	let prefix = 0;
+	while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) prefix++;
+	let suffix = 0;
+	while (
+		suffix < oldLines.length - prefix && suffix < newLines.length - prefix
+		&& oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+	) suffix++;
+
+	const a = oldLines.slice(prefix, oldLines.length - suffix);
+	const b = newLines.slice(prefix, newLines.length - suffix);
+
+	const entries: DiffEntry[] = [];
+	for (let i = 0; i < prefix; i++) entries.push({ type: "c", line: i + 1, text: oldLines[i] });
+	for (const op of myers(a, b)) {
+		if (op.type === "a") entries.push({ type: "a", line: prefix + op.line, text: b[op.line - 1] });
+		else entries.push({ type: op.type, line: prefix + op.line, text: a[op.line - 1] });
+	}
+	for (let i = oldLines.length - suffix; i < oldLines.length; i++) entries.push({ type: "c", line: i + 1, text: oldLines[i] });
+	return entries;
+}
+
+type Op = { type: "r" | "a" | "c"; line: number };
+
+/**
+ * Edit steps each end of a middle snake search may take. Ranges that differ
+ * by more are split where the searches got furthest instead (as GNU diff
+ * does), or replaced whole if they found no line in common (e.g. a rewritten
+ * file), rather than spending O((N + M) * D) time on a minimal script.
+ */
+const MAX_COST = 2000;
+
+/**
+ * Myers shortest edit script in linear space: each range is split at the
+ * middle snake of its edit path, found by searching from both ends at once,
+ * and the halves are diffed recursively. Memory is O(N + M) rather than the
+ * O(D^2) of keeping every step's diagonals; past MAX_COST the script is
+ * no longer minimal, so time stays near-linear.
+ * Removals are emitted before additions within a changed block.
+ */
+function myers(a: string[], b: string[]): Op[] {
+	const ops: Op[] = [];
+	compare(a, b, 0, a.length, 0, b.length, ops);
+
+	// Group each run of changes as removals then additions
+	const out: Op[] = [];
+	for (let i = 0; i < ops.length;) {
+		if (ops[i].type === "c") { out.push(ops[i++]); continue; }
+		const removed: typeof ops = [], added: typeof ops = [];
+		while (i < ops.length && ops[i].type !== "c") (ops[i].type === "r" ? removed : added).push(ops[i++]);
+		// Not push(...removed): a rewritten file's block can exceed the argument limit
+		for (const op of removed) out.push(op);
+		for (const op of added) out.push(op);
+	}
+	return out;
+}
+
+/** Append the edit script of a[a0..a1) against b[b0..b1) to ops. */
+function compare(a: string[], b: string[], a0: number, a1: number, b0: number, b1: number, ops: Op[]): void {
+	while (a0 < a1 && b0 < b1 && a[a0] === b[b0]) {
+		ops.push({ type: "c", line: a0 + 1 });
+		a0++;
+		b0++;
+	}
+	let suffix = 0;
+	while (a1 - suffix > a0 && b1 - suffix > b0 && a[a1 - 1 - suffix] === b[b1 - 1 - suffix]) suffix++;
+	a1 -= suffix;
+	b1 -= suffix;
+
+	if (a0 === a1) {
+		for (let j = b0; j < b1; j++) ops.push({ type: "a", line: j + 1 });
+	} else if (b0 === b1) {
+		for (let i = a0; i < a1; i++) ops.push({ type: "r", line: i + 1 });
+	} else {
+		const split = middleSnake(a, b, a0, a1, b0, b1);
+		if (split) {
+			compare(a, b, a0, split.x, b0, split.y, ops);
+			compare(a, b, split.x, a1, split.y, b1, ops);
+		} else {
+			// Nothing in common: replace the whole range
+			for (let i = a0; i < a1; i++) ops.push({ type: "r", line: i + 1 });
+			for (let j = b0; j < b1; j++) ops.push({ type: "a", line: j + 1 });
+		}
+	}
+	for (let i = a1; i < a1 + suffix; i++) ops.push({ type: "c", line: i + 1 });
+}
+
+/**
+ * The point where the forward and backward searches for the shortest edit
+ * path of a[a0..a1) against b[b0..b1) meet, in absolute indexes. If they
+ * don't meet within MAX_COST steps, the furthest point either reached;
+ * undefined if neither found a line in common. The ranges must differ at both ends.
+ */
+function middleSnake(
+	a: string[], b: string[], a0: number, a1: number, b0: number, b1: number,
+): { x: number; y: number } | undefined {
+	const n = a1 - a0, m = b1 - b0;
+	const maxD = Math.min(Math.ceil((n + m) / 2), MAX_COST);
+	const offset = maxD + 1;
+	// forward[k + offset] = furthest x on diagonal k; backward the same, counted from the ends
+	const forward = new Int32Array(2 * offset + 1).fill(-1);
+	const backward = new Int32Array(2 * offset + 1).fill(-1);
+	forward[offset + 1] = 0;
+	backward[offset + 1] = 0;
+	const delta = n - m;
+	// With an odd delta, the paths can only meet on a forward step; with an even one, on a backward step
+	const odd = (delta & 1) !== 0;
+	let kStart = 0, kEnd = 0, kBackStart = 0, kBackEnd = 0;
+
+	for (let d = 0; d <= maxD; d++) {
+		for (let k = -d + kStart; k <= d - kEnd; k += 2) {
+			const i = offset + k;
+			let x = k === -d || (k !== d && forward[i - 1] < forward[i + 1]) ? forward[i + 1] : forward[i - 1] + 1;
+			let y = x - k;
+			while (x < n && y < m && a[a0 + x] === b[b0 + y]) { x++; y++; }
+			forward[i] = x;
+			if (x > n) kEnd += 2;
+			else if (y > m) kStart += 2;
+			else if (odd) {
+				const j = offset + delta - k;
+				if (j >= 0 && j < backward.length && backward[j] !== -1 && x >= n - backward[j]) return { x: a0 + x, y: b0 + y };
+			}
+		}
+		for (let k = -d + kBackStart; k <= d - kBackEnd; k += 2) {
+			const i = offset + k;
+			let x = k === -d || (k !== d && backward[i - 1] < backward[i + 1]) ? backward[i + 1] : backward[i - 1] + 1;
+			let y = x - k;
+			while (x < n && y < m && a[a1 - 1 - x] === b[b1 - 1 - y]) { x++; y++; }
+			backward[i] = x;
+			if (x > n) kBackEnd += 2;
+			else if (y > m) kBackStart += 2;
+			else if (!odd) {
+				const j = offset + delta - k;
+				if (j >= 0 && j < forward.length && forward[j] !== -1) {
+					const fx = forward[j];
+					if (fx >= n - x) return { x: a0 + fx, y: b0 + fx - (j - offset) };
+				}
+			}
+		}
+	}
+
+	// Too costly: split at the furthest-reaching path, if it matched any lines
+	let best: { x: number; y: number } | undefined;
+	let reach = maxD;
+	for (let k = -maxD; k <= maxD; k++) {
+		const i = offset + k;
+		const fx = forward[i], bx = backward[i];
+		if (fx !== -1 && fx <= n && fx - k <= m && fx - k >= 0 && 2 * fx - k > reach) {
+			reach = 2 * fx - k;
+			best = { x: a0 + fx, y: b0 + fx - k };
+		}
+		if (bx !== -1 && bx <= n && bx - k <= m && bx - k >= 0 && 2 * bx - k > reach) {
+			reach = 2 * bx - k;
+			best = { x: a1 - bx, y: b1 - (bx - k) };
+		}
+	}
+	// A split at either end would not make progress
+	if (best && ((best.x === a0 && best.y === b0) || (best.x === a1 && best.y === b1))) return undefined;
+	return best;
+}
@@ -4,94 +4,206 @@
  * Lines are referenced by their 2-char base-62 content hash (from hh_read output).
  * Before editing, hashes are resolved to line numbers and validated against the
  * current file content. If a hash is missing or ambiguous, the edit is rejected.
+ * Edits are also checked against the session's read snapshots (snapshots.ts):
+ * the file must be unchanged since the model's last hashed read, and every
+ * hash must resolve to a line that read actually showed.
  *
- * All content is passed via positional args to avoid shell/sed injection issues.
+ * Edits are applied in-process and written atomically (temp file + rename),
+ * and every write is recorded in the session's undo journal (journal.ts) and
+ * its edit log (editlog.ts).
+ * The write-path policy (policy.ts) is checked first, in every mode.
+ * Writes covered by the approval config (config.ts) are shown to the user as
+ * a diff and only happen once accepted; dry_run returns the diff unwritten.
+ * After a write, the configured validators (validate.ts) check the file.
+ *
+ * Jupyter notebooks are edited by cell (see notebook.ts): anchors address a
+ * cell's source, cells can be inserted and deleted, and the notebook is
+ * written back as nbformat JSON.
+ *
+ * Files over LARGE_FILE_BYTES are never loaded whole (see stream.ts): only the
+ * lines around each edit's anchors are read, and the edit is written by
+ * streaming the file through. Such edits are not journaled or validated, only
+ * logged.
  */
 
-import type { ExtensionAPI, EditToolDetails, ToolRenderResultOptions } from "@mariozechner/pi-coding-agent";
-import { renderDiff, highlightCode, getLanguageFromPath } from "@mariozechner/pi-coding-agent";
+import type { ExtensionAPI, ExtensionContext, EditToolDetails, ToolRenderResultOptions } from "@mariozechner/pi-coding-agent";
+import { DEFAULT_MAX_LINES, formatSize, renderDiff, highlightCode, getLanguageFromPath } from "@mariozechner/pi-coding-agent";
 import { Text } from "@mariozechner/pi-tui";
 import { Type } from "@sinclair/typebox";
 import * as os from "node:os";
+import { copyFile, mkdir, readFile, rename, rmdir, stat, unlink } from "node:fs/promises";
 import * as path from "node:path";
-import { readFile } from "node:fs/promises";
 import type { AgentToolResult } from "@mariozechner/pi-agent-core";
-import { lineHash, resolveHash } from "./hashline.js";
+import { loadConfig } from "./config.js";
+import { diffLines, type DiffEntry } from "./diff.js";
+import { logChange } from "./editlog.js";
+import { matchesGlob } from "./glob.js";
+import { ANCHOR_DRIFT, hashWidth, lineHash, parseAnchor, resolveAnchor } from "./hashline.js";
+import { recordChange, type JournalEntry } from "./journal.js";
+import {
+	CELL_TYPES, cellSource, clearOutputs, formatNotebook, isNotebook, newCell, notebookLines, parseNotebook,
+	renderNotebook, setCellSource, type Notebook,
+} from "./notebook.js";
+import { findSymbol } from "./outline.js";
+import { checkRead, checkWrite } from "./policy.js";
+import { hashSettings } from "./settings.js";
+import { findCandidates, formatCandidate, preview } from "./relocate.js";
+import {
+	assertFresh, assertShown, contentDigest, findShown, getSnapshot, recordEdit, recordRead, shownRanges,
+	staleMessage, transferSnapshot, type ReadSnapshot, type SnapshotChange,
+} from "./snapshots.js";
+import {
+	LARGE_FILE_BYTES, LARGE_FILE_WIDTH, largeFileDigest, lineArray, readBytes, rewriteLines, scanLines, streamEncoding,
+	wholeFileError, type LineRange,
+} from "./stream.js";
+import { runValidators } from "./validate.js";
+import {
+	detectEncoding, ENCODING_NAMES, formatText, hasFinalNewline, parseText, readTextFile, SNIFF_BYTES, unencodable, withStyle,
+	writeFileAtomic, type TextEncoding, type TextFile,
+} from "./textfile.js";
+
+interface EditItem {
+	hash_start?: string;
+	hash_stop?: string;
+	offset?: number;
+	content?: string;
+	symbol?: string;
+}
+
+/** An edit with its symbol (if any) resolved to anchors. */
+type AnchoredItem = EditItem & { hash_start: string };
+
+const FILE_OPERATIONS = ["move", "copy", "delete_file"] as const;
+type FileOperation = typeof FILE_OPERATIONS[number];
 
 interface Params {
 	path: string;
+	operation?: string;
+	destination?: string;
+	overwrite?: boolean;
 	hash_start?: string;
 	hash_stop?: string;
 	offset?: number;
 	content?: string;
+	symbol?: string;
+	find?: string;
+	replace?: string;
+	regex?: boolean;
+	expected_count?: number;
+	edits?: EditItem[];
+	cell?: number;
+	insert_cell?: string;
+	delete_cell?: boolean;
+	auto_relocate?: boolean;
+	dry_run?: boolean;
 }
 
+const HASH_START_DESCRIPTION =
+	"Hash of the line to insert before, or start of range to replace/delete. " +
+	"Use the hash exactly as shown by the read tool (e.g. \"a3\"; 3-4 chars in files with collisions), or a line-qualified " +
+	"anchor \"<line>:<hash>\" (e.g. \"42:a3\") from read with anchors: true.";
+
+const hashStartSchema = Type.String({ description: HASH_START_DESCRIPTION });
+
+const hashStopSchema = Type.String({
+	description:
+		"Hash (or \"<line>:<hash>\" anchor) of the last line in the range to replace/delete (inclusive). " +
+		"If omitted with hash_start, inserts before that line.",
+});
+
+const offsetSchema = Type.Number({
+	description:
+		"Line number to start searching from (1-indexed). " +
+		"The first hash match at or after this line is used. " +
+		"MUST match the offset used in the read() call that produced the hashes. " +
+		"If you read with offset, you must pass the same offset here.",
+});
+
+const contentSchema = Type.String({ description: "Text to insert, replace with, or use as new file content" });
+
+const symbolSchema = Type.String({
+	description:
+		"Instead of hash_start/hash_stop: a declaration such as \"MyClass.method\" or \"formatUnifiedDiff\", " +
+		"replaced as a whole (JSDoc included) by content, or deleted if content is omitted. " +
+		"Its current extent must have been shown by read (e.g. read with symbol).",
+});
+
 const schema = Type.Object({
 	path: Type.String({ description: "Path to the file" }),
+	// Plain string enum rather than a union of literals, which some providers reject
+	operation: Type.Optional(Type.String({
+		enum: [...FILE_OPERATIONS],
+		description:
+			"A file-level operation on path instead of an edit: \"move\" or \"copy\" it to destination, or \"delete_file\". " +
+			"The file must have been read with change_file: true in its current version. Takes no hashes or content.",
+	})),
+	destination: Type.Optional(Type.String({ description: "Target path for operation \"move\" or \"copy\"" })),
+	overwrite: Type.Optional(Type.Boolean({
+		description: "With move/copy, replace destination if it exists (it must have been read with change_file: true). Default: false",
+	})),
 	hash_start: Type.Optional(
-		Type.String({
-			description:
-				"Hash of the line to insert before, or start of range to replace/delete. " +
-				"Use the 2-char hash from the read tool output (e.g. \"a3\"). Omit to create/overwrite the file.",
-		}),
+		Type.String({ description: HASH_START_DESCRIPTION + " Omit to create/overwrite the file." }),
+	),
+	hash_stop: Type.Optional(hashStopSchema),
+	offset: Type.Optional(offsetSchema),
+	content: Type.Optional(contentSchema),
+	symbol: Type.Optional(symbolSchema),
+	find: Type.Optional(Type.String({
+		description:
+			"Search-and-replace instead of content: text (or with regex: true, a pattern) to replace between hash_start " +
+			"and hash_stop (or within symbol, or in the whole file if neither is given). Requires replace.",
+	})),
+	replace: Type.Optional(Type.String({
+		description: "Replacement for every match of find. With regex: true, $1, $<name> and $& refer to the match. \"\" deletes the matches.",
+	})),
+	regex: Type.Optional(Type.Boolean({
+		description: "Treat find as a JavaScript regular expression (flags g and m; ^ and $ match at line boundaries). Default: false",
+	})),
+	expected_count: Type.Optional(Type.Number({
+		description: "With find, the number of matches you expect; if it differs, nothing is written and the matching lines are listed.",
+	})),
+	edits: Type.Optional(
+		Type.Array(
+			Type.Object({
+				hash_start: Type.Optional(hashStartSchema),
+				hash_stop: Type.Optional(hashStopSchema),
+				offset: Type.Optional(offsetSchema),
+				content: Type.Optional(contentSchema),
+				symbol: Type.Optional(symbolSchema),
+			}),
+			{
+				description:
+					"Several edits to apply atomically to the same file. All hashes resolve against the file " +
+					"as it is before any of them is applied, so no re-read is needed between them. " +
+					"Ranges must not overlap. Each edit needs hash_start or symbol. " +
+					"Use instead of the top-level hash_start/hash_stop/offset/content/symbol.",
+			},
+		),
 	),
-	hash_stop: Type.Optional(
-		Type.String({
+	cell: Type.Optional(Type.Number({
+		description:
+			"Jupyter notebooks (.ipynb) only: the cell to edit, numbered as read shows them. hash_start/hash_stop/edits/find " +
+			"then use that cell's anchors; content without hashes replaces its whole source.",
+	})),
+	insert_cell: Type.Optional(Type.String({
+		enum: [...CELL_TYPES],
+		description: "Notebooks only: insert a new cell of this type, with content as its source, before cell (the cell count + 1 appends).",
+	})),
+	delete_cell: Type.Optional(Type.Boolean({ description: "Notebooks only: delete cell. Default: false" })),
+	auto_relocate: Type.Optional(
+		Type.Boolean({
 			description:
-				"Hash of the last line in the range to replace/delete (inclusive). " +
-				"If omitted with hash_start, inserts before that line.",
+				"If the file changed since you read it, follow each hash to its new line when exactly one " +
+				"high-confidence match (same or nearly the same content) exists, and apply the edit there. Default: false",
 		}),
 	),
-	offset: Type.Optional(
-		Type.Number({
+	dry_run: Type.Optional(
+		Type.Boolean({
 			description:
-				"Line number to start searching from (1-indexed). " +
-				"The first hash match at or after this line is used. " +
-				"MUST match the offset used in the read() call that produced the hashes. " +
-				"If you read with offset, you must pass the same offset here.",
+				"If true, resolve the hashes and return the diff the change would make, without writing the file. Default: false",
 		}),
 	),
-	content: Type.Optional(
-		Type.String({ description: "Text to insert, replace with, or use as new file content" }),
-	),
 });
-// Shell script for create/overwrite mode.
-
-
-// $1 = file path, $2 = content
-const CREATE_SCRIPT = `
-set -e
-mkdir -p "$(dirname "$1")"
-printf '%s' "$2" > "$1"
-`;
-
-// Shell script for edit mode (insert, replace, delete).
-// $1 = file, $2 = mode, $3 = content, $4 = start line, $5 = stop line
-const EDIT_SCRIPT = [
-	"set -e",
-	'FILE="$1"; MODE="$2"; CONTENT="$3"; START="$4"; STOP="$5"',
-	'TMP=$(mktemp); TMP2=$(mktemp); trap \'rm -f "$TMP" "$TMP2"\' EXIT',
-	'cp "$FILE" "$TMP"',
-	"",
-	'if [ "$MODE" = "delete" ]; then',
-	'  sed -i "${START},${STOP}d" "$FILE"',
-	'elif [ "$MODE" = "insert" ]; then',
-	'  head -n "$((START - 1))" "$FILE" > "$TMP2"',
-	"  printf '%s' \"$CONTENT\" >> \"$TMP2\"",
-	'  tail -n "+$START" "$FILE" >> "$TMP2"',
-	'  cp "$TMP2" "$FILE"',
-	"else",
-	'  head -n "$((START - 1))" "$FILE" > "$TMP2"',
-	"  printf '%s' \"$CONTENT\" >> \"$TMP2\"",
-	'  tail -n "+$((STOP + 1))" "$FILE" >> "$TMP2"',
-	'  cp "$TMP2" "$FILE"',
-	"fi",
-	"",
-	'if cmp -s "$TMP" "$FILE"; then echo NO_CHANGES; exit 0; fi',
-	'diff -U99999 "$TMP" "$FILE" || true',
-].join("\n");
-
-const EXEC_OPTS = { timeout: 10000 };
 
 export default function (pi: ExtensionAPI) {
 	pi.registerTool({
@@ -99,132 +211,297 @@ export default function (pi: ExtensionAPI) {
 		label: "Change File",
 		description:
 			"Create a new file or edit an existing one. " +
-			"Lines are referenced by their 2-char content hash from the read tool output. " +
+			"Lines are referenced by their content hash from the read tool output (2 chars, or 3-4 in files where 2 would collide). " +
 			"To create/overwrite: provide path and content (omit hash_start). " +
 			"To insert: provide path, hash_start, and content (inserts before the hashed line). " +
 			"To replace: provide path, hash_start, hash_stop, and content. " +
 			"To delete: provide path, hash_start (and optionally hash_stop), omit content. " +
+			"To replace or delete a whole declaration: provide path and symbol (e.g. \"MyClass.method\") instead of hashes. " +
+			"To apply several edits to one file at once: provide path and edits (an array of {hash_start, hash_stop, offset, content} or {symbol, content}). " +
+			"All hashes in edits refer to the file before any of them is applied; overlapping ranges are rejected. " +
+			"Edits must target lines shown by a read with change_file: true of the file's current version " +
+			"(or written by an earlier change_file call). If the file changed on disk since, the error lists likely " +
+			"new anchors for your hashes; retry with them, or pass auto_relocate: true to follow single confident matches. " +
 			"Hashes always refer to the first match at or after offset. " +
+			"Alternatively, read with anchors: true and pass \"<line>:<hash>\" anchors (e.g. \"42:a3\") as hash_start/hash_stop; " +
+			"they pin the exact line and need no offset. " +
+			"To substitute text instead of re-sending lines: provide path, find and replace (optionally regex, expected_count), " +
+			"scoped by hash_start/hash_stop or symbol, or the whole file without them. " +
+			"To rename, copy or delete a whole file: provide path and operation (\"move\"/\"copy\" with destination, or \"delete_file\"). " +
+			"In Jupyter notebooks, pass cell with the anchors read showed for it; insert_cell or delete_cell add or remove cells. " +
+			"In files over 32MB, hashes need a line (\"<line>:<hash>\") or offset, and symbol, whole-file find/replace, " +
+			"overwriting and operations are unavailable. " +
+			"Pass dry_run: true to preview the diff without writing. " +
 			"IMPORTANT: If you read the file with offset (e.g. read({offset: 50})), you MUST pass the same offset to change_file. " +
 			"Without offset, hashes resolve from line 1 and may match the wrong occurrence.",
 		parameters: schema,
 		async execute(_id, params: Params, signal, _onUpdate, ctx) {
-			const { path: filePath, hash_start, hash_stop, offset } = params;
-			let content = params.content;
-			const execOpts = { ...EXEC_OPTS, signal, cwd: ctx.cwd };
+			const { path: filePath, hash_start, hash_stop, offset, symbol, edits, auto_relocate, dry_run } = params;
+			const { content, find, replace, regex, expected_count } = params;
+			const absPath = path.isAbsolute(filePath) ? filePath : path.resolve(ctx.cwd, filePath);
+
+			if (params.operation != null) {
+				const operation = FILE_OPERATIONS.find((op) => op === params.operation);
+				if (!operation) throw new Error(`Unknown operation "${params.operation}": expected ${FILE_OPERATIONS.join(", ")}.`);
+				if (hash_start != null || hash_stop != null || offset != null || content != null || symbol != null || edits != null || find != null) {
+					throw new Error(`operation "${params.operation}" acts on the whole file; don't pass hashes, symbol, edits, content or find.`);
+				}
+				return fileOperation(ctx, operation, absPath, filePath, params.destination, !!params.overwrite, !!dry_run);
+			}
+			if (params.destination != null || params.overwrite != null) {
+				throw new Error("destination and overwrite only apply to operation \"move\" or \"copy\".");
+			}
+
+			if (edits != null && (hash_start != null || hash_stop != null || offset != null || content != null || symbol != null || find != null)) {
+				throw new Error("Pass either edits or hash_start/hash_stop/offset/content/symbol/find, not both.");
+			}
+			if (find != null) {
+				if (content != null) throw new Error("Pass either find/replace or content, not both.");
+				if (replace == null) throw new Error("find needs replace (use \"\" to delete the matches).");
+				if (find === "") throw new Error("find must not be empty.");
+			} else if (replace != null || regex != null || expected_count != null) {
+				throw new Error("replace, regex and expected_count only apply together with find.");
+			}
+			const cellEdit = params.cell != null || params.insert_cell != null || params.delete_cell != null;
+			if (cellEdit && !isNotebook(absPath)) throw new Error("cell, insert_cell and delete_cell only apply to Jupyter notebooks (.ipynb).");
+			// find/replace without hashes or symbol covers the whole file
+			const wholeFile = find != null && hash_start == null && symbol == null;
+			const findScope = (scope: ResolvedEdit) => wholeFile ? filePath : `lines ${scope.start}–${scope.stop} of ${filePath}`;
+			const create = !cellEdit && hash_start == null && symbol == null && edits == null && find == null;
+			await checkWrite(ctx, absPath, filePath, { replace: create });
+			const minWidth = hashSettings(ctx).width;
+
+			// Notebooks are parsed whole, whatever their size; a new one is written as given
+			if (isNotebook(absPath) && !create) return editNotebook(pi, ctx, params, absPath, signal);
+			const size = (await stat(absPath).catch(() => undefined))?.size ?? 0;
+			if (size > LARGE_FILE_BYTES) return editLargeFile(ctx, params, absPath, size, signal);
 
 			// --- Create / overwrite (no hashes) ---
-			if (hash_start == null) {
+			if (create) {
 				const text = content ?? "";
-				const res = await pi.exec("bash", ["-c", CREATE_SCRIPT, "--", filePath, text], execOpts);
-				if (res.code !== 0) throw new Error(res.stderr.trim() || "write failed");
+				// Overwrites keep the existing file's line endings, BOM and encoding
+				let file = parseText(text);
+				const existing = await readTextFile(absPath, filePath).catch((err) => {
+					if (err?.code === "ENOENT") return undefined;
+					throw err;
+				});
+				if (existing) file = withStyle(file, existing.file);
+				const written = formatText(file);
+				const encoding = existing?.encoding ?? "utf-8";
+				if (existing) assertEncodable(filePath, existing, written);
+				const { diff, firstChangedLine } = formatUnifiedDiff(diffLines(existing?.file.lines ?? [], file.lines));
+				if (dry_run) return dryRunResult(filePath, [], diff, firstChangedLine);
+				if (await approveWrite(ctx, absPath, filePath, diff, existing != null)) {
+					await assertUnchanged(absPath, existing?.raw, filePath);
+				}
+
+				if (signal?.aborted) throw new Error("Operation aborted");
+				// The outermost directory made for a new file, if any, for a revert to remove
+				const madeDir = existing ? undefined : await mkdir(path.dirname(absPath), { recursive: true });
+				await writeFileAtomic(absPath, written, encoding);
+				const validation = await validateWrite(pi, ctx, absPath, filePath, file.lines, existing?.raw, encoding, signal, madeDir);
+				// The model wrote every line, so all of them count as shown
+				recordEdit(ctx, absPath,
+					{ digest: contentDigest(written), mtimeMs: (await stat(absPath)).mtimeMs, width: hashWidth(file.lines, minWidth), lines: file.lines },
+					[{ start: 1, removed: existing?.file.lines.length ?? 0, lines: file.lines }]);
+				logJournaled(ctx, recordChange(ctx, {
+					files: [{ absPath, displayPath: filePath, before: existing?.raw, after: written, encoding: { before: encoding, after: encoding } }],
+					summary: existing ? diffSummary(diff) : "created",
+				}), existing ? "overwrite" : "create");
 				const lines = text ? text.split("\n").length : 0;
 				return {
-					content: [{ type: "text", text: `Created ${filePath} (${lines} lines).` }],
+					content: [{ type: "text", text: `Created ${filePath} (${lines} lines).` + validation }],
 				};
 			}
 
-			// --- Resolve hashes to line numbers ---
-			const absPath = path.isAbsolute(filePath) ? filePath : path.resolve(ctx.cwd, filePath);
-			const fileContent = await readFile(absPath, "utf-8");
-			const fileLines = fileContent.split("\n");
+			// A find/replace scope resolves like a deletion of the range, whose lines are then substituted
+			const requested: EditItem[] = edits ?? (wholeFile ? [] : [{ hash_start, hash_stop, offset, content, symbol }]);
+			if (requested.length === 0 && !wholeFile) throw new Error("edits must contain at least one edit.");
 
-			const warnings: string[] = [];
+			// --- Resolve every hash against the same pre-edit snapshot ---
+			const read = await readTextFile(absPath, filePath);
+			const { file, raw, encoding } = read;
+			assertEncodable(filePath, read);
+			const fileLines = file.lines;
+			const digest = contentDigest(raw);
+			const label = (i: number) => requested.length > 1 ? `edits[${i}]: ` : "";
 
-			const startResult = resolveHash(fileLines, hash_start, offset);
-			const lineStart = startResult.line;
-			if (startResult.ambiguous) {
-				warnings.push(`Warning: hash "${hash_start}" matches multiple lines. Using first match (line ${lineStart}). Provide offset to target a specific occurrence.`);
+			// Symbols resolve to the current extent of their declaration, as line-qualified anchors
+			const symbols = new Map<number, { symbol: string; display: string }>();
+			let items: AnchoredItem[] = [];
+			for (const [i, item] of requested.entries()) {
+				if (item.symbol == null) {
+					if (item.hash_start == null) throw new Error(`${label(i)}Provide hash_start or symbol.`);
+					items.push({ ...item, hash_start: item.hash_start });
+					continue;
+				}
+				if (item.hash_start != null || item.hash_stop != null || item.offset != null) {
+					throw new Error(`${label(i)}Pass either symbol or hash_start/hash_stop/offset, not both.`);
+				}
+				const extent = await findSymbol(absPath, fileLines, item.symbol);
+				const anchor = (n: number) => `${n}:${lineHash(fileLines[n - 1], hashWidth(fileLines, minWidth))}`;
+				const lines = extent.start === extent.end ? `line ${extent.start}` : `lines ${extent.start}–${extent.end}`;
+				symbols.set(i, { symbol: item.symbol, display: `${extent.name} (${lines})` });
+				items.push({ ...item, hash_start: anchor(extent.start), hash_stop: anchor(extent.end) });
 			}
 
-			let lineStop: number | undefined;
-			if (hash_stop != null) {
-				// For hash_stop, search from lineStart so it's always at or after hash_start
-				const stopResult = resolveHash(fileLines, hash_stop, offset ?? lineStart);
-				lineStop = stopResult.line;
-				if (stopResult.ambiguous) {
-					warnings.push(`Warning: hash "${hash_stop}" matches multiple lines. Using first match (line ${lineStop}). Provide offset to target a specific occurrence.`);
+			// Hashes are only trusted for the file version and lines the model was shown
+			let failing: number | undefined;
+			const resolveAll = (snap: ReadSnapshot) => {
+				const warnings: string[] = [];
+				const resolved = items.map((item, i) => resolveEdit(fileLines, item, (failing = i), label(i), warnings));
+				for (const edit of resolved) {
+					failing = edit.order;
+					try {
+						assertShown(snap, edit.start, edit.startHash, label(edit.order));
+						if (edit.stopHash != null) assertShown(snap, edit.stop, edit.stopHash, label(edit.order));
+					} catch (err) {
+						const sym = symbols.get(edit.order);
+						if (!sym) throw err;
+						throw new Error(
+							`${label(edit.order)}Symbol ${sym.display} was not shown in full in your last read of this file. ` +
+							`Read it with symbol: "${sym.symbol}" and change_file: true first.`
+						);
+					}
 				}
-			}
+				failing = undefined;
+				checkOverlaps(resolved);
+				return { resolved, warnings };
+			};
 
-			if (lineStop != null && lineStop < lineStart) {
-				throw new Error(
-					`hash_stop "${hash_stop}" resolves to line ${lineStop}, which is before ` +
-					`hash_start "${hash_start}" at line ${lineStart}.`
-				);
+			// Stale hashes — the file changed since the model's read, or the hashes are from the
+			// version before that (e.g. a retry after a stale-file error) — are looked up in the
+			// older snapshot to point the model at where its lines went, or to follow them.
+			const snapshot = getSnapshot(ctx, absPath);
+			let result: ReturnType<typeof resolveAll> | undefined;
+			let source: ReadSnapshot | undefined;
+			let error: unknown;
+			// Symbols already name the current declaration; they only need the model to have seen it
+			// and so does a whole-file find/replace
+			if (symbols.size > 0 || wholeFile) assertFresh(snapshot, digest, filePath);
+			if (snapshot && snapshot.digest !== digest) {
+				source = snapshot;
+			} else {
+				assertFresh(snapshot, digest, filePath);
+				try {
+					result = resolveAll(snapshot);
+				} catch (err) {
+					// Only hashes the model passed can be from an earlier version; a symbol's were made from this one
+					if (!snapshot.previous || (failing != null && symbols.has(failing))) throw err;
+					source = snapshot.previous;
+					error = err;
+				}
 			}
 
-			// --- Edit (insert / replace / delete) ---
-			const mode = !content ? "delete" : lineStop != null ? "replace" : "insert";
-			const stop = String(lineStop ?? lineStart);
-			// Drop duplicate trailing line if its hash matches the line being inserted before.
-			// Only for insert mode — in replace mode the hash_stop line is removed, so matching is expected.
-			if (mode === "insert" && content) {
-				const contentLines = content.split("\n");
-				if (contentLines.length > 0
-					&& lineHash(contentLines[contentLines.length - 1]) === lineHash(fileLines[lineStart - 1])) {
-					contentLines.pop();
-					content = contentLines.join("\n");
+			if (source) {
+				const width = hashWidth(fileLines, minWidth);
+				const relocation = relocateItems(items, source, fileLines, width, label);
+				// Not an older version's hashes after all
+				if (error && relocation.found === 0) throw error;
+
+				const ranges = shownRanges(source);
+				// Candidates are shown to the model, so they count as shown lines of the current version
+				const version = { digest, mtimeMs: (await stat(absPath)).mtimeMs, width, lines: fileLines };
+				for (const c of relocation.shown) recordRead(ctx, absPath, version, c.line, [c.text]);
+
+				if (!auto_relocate || !relocation.items) {
+					const hint = relocation.shown.length > 0
+						? "Retry with the anchors above (they are valid for the current file)" +
+							(auto_relocate ? "" : ", pass auto_relocate: true to follow single high-confidence matches,") +
+							` or re-read lines ${ranges} with change_file: true.`
+						: `Re-read lines ${ranges} with change_file: true before editing.`;
+					const header = error
+						? `These hashes are from an earlier version of ${filePath}; it has changed since.`
+						: staleMessage(filePath);
+					throw new Error([header, ...relocation.report, hint].join("\n"));
 				}
+				items = relocation.items;
+				result = resolveAll(getSnapshot(ctx, absPath)!);
+				result.warnings.unshift(...relocation.notes);
 			}
 
-			// Ensure content ends with a newline so printf '%s' produces complete lines
-			const normalizedContent = content && !content.endsWith("\n") ? content + "\n" : (content ?? "");
-
-			const res = await pi.exec(
-				"bash",
-				["-c", EDIT_SCRIPT, "--", filePath, mode, normalizedContent, String(lineStart), stop],
-				execOpts,
-			);
-			if (res.code !== 0) throw new Error(res.stderr.trim() || "change_file failed");
+			let { resolved, warnings } = result!;
+			let substitution: Substitution | undefined;
+			if (find != null) {
+				// The whole file as one range; its hashes are never reported, as find results list lines instead
+				const scope: ResolvedEdit = resolved[0] ?? {
+					order: 0, mode: "replace", start: 1, stop: fileLines.length, lines: [],
+					hashStart: "", startHash: "", qualified: true,
+				};
+				substitution = substitute(fileLines, scope.start, scope.stop, find, replace!, !!regex);
+				checkMatches(substitution, params, findScope(scope));
+				resolved = [{ ...scope, mode: "replace", lines: substitution.lines }];
+			}
 
-			const out = res.stdout.trim();
-			if (out === "NO_CHANGES") {
+			// --- Edit (insert / replace / delete), applied bottom-up in one pass ---
+			const newFile = applyEdits(file, resolved);
+			const newFileLines = newFile.lines;
+			const newContent = formatText(newFile);
+			if (newContent === raw) {
 				return { content: [{ type: "text", text: `No changes made to ${filePath}.` }] };
 			}
+			assertEncodable(filePath, read, newContent);
 
-			const { diff, firstChangedLine } = formatUnifiedDiff(out);
-
-			// Re-read file to get hashes of newly written lines
-			let newRange = "";
-			if (content && firstChangedLine != null) {
-				const newFileContent = await readFile(absPath, "utf-8");
-				const newFileLines = newFileContent.split("\n");
-				const newLineCount = content.split("\n").length;
-				const firstNew = firstChangedLine;
-				const lastNew = firstNew + newLineCount - 1;
-				if (firstNew >= 1 && lastNew <= newFileLines.length) {
-					const firstHash = lineHash(newFileLines[firstNew - 1]);
-					const lastHash = lineHash(newFileLines[lastNew - 1]);
-					newRange = firstHash === lastHash
-						? ` with ${firstHash}`
-						: ` with ${firstHash}..${lastHash}`;
-				}
-			}
+			const { diff, firstChangedLine } = formatUnifiedDiff(diffLines(fileLines, newFileLines));
+			if (dry_run) return dryRunResult(filePath, warnings, diff, firstChangedLine);
+			if (await approveWrite(ctx, absPath, filePath, diff, false)) await assertUnchanged(absPath, raw, filePath);
 
-			const msg = buildMessage(mode, filePath, hash_start, hash_stop) + newRange;
-			const fullMsg = warnings.length > 0 ? warnings.join("\n") + "\n" + msg : msg;
+			if (signal?.aborted) throw new Error("Operation aborted");
+			await writeFileAtomic(absPath, newContent, encoding);
+			const validation = await validateWrite(pi, ctx, absPath, filePath, newFileLines, raw, encoding, signal);
+			// Report new hashes at the width a fresh read of the edited file would show
+			const width = hashWidth(newFileLines, minWidth);
+			recordEdit(ctx, absPath, { digest: contentDigest(newContent), mtimeMs: (await stat(absPath)).mtimeMs, width, lines: newFileLines },
+				snapshotChanges(resolved));
+			logJournaled(ctx, recordChange(ctx, {
+				files: [{ absPath, displayPath: filePath, before: raw, after: newContent, encoding: { before: encoding, after: encoding } }],
+				summary: diffSummary(diff),
+			}), logMode(resolved, find), logAnchors(resolved, symbols));
+
+			const msg = (substitution
+				? substitutionMessage(substitution, find!, findScope(resolved[0]), resolved[0], fileLines, width)
+				: editMessages(resolved, symbols, filePath, width)) + validation;
 			return {
-				content: [{ type: "text", text: fullMsg }],
+				content: [{ type: "text", text: warnings.length > 0 ? warnings.join("\n") + "\n" + msg : msg }],
 				details: { diff, firstChangedLine } as EditToolDetails,
 			};
 		},
 
 		renderCall(args: Params, theme: any) {
-			let display = args.path?.startsWith(os.homedir())
-				? `~${args.path.slice(os.homedir().length)}`
-				: (args.path || "...");
+			const shorten = (p: string | undefined) => p?.startsWith(os.homedir()) ? `~${p.slice(os.homedir().length)}` : (p || "...");
+			let display = shorten(args.path);
+			if (args.cell != null) display += ` cell ${args.cell}`;
 			if (args.offset != null) display += `:${args.offset}`;
+			if (args.operation) {
+				const target = args.operation === "delete_file" ? "" : theme.fg("muted", " → ") + theme.fg("accent", shorten(args.destination));
+				const flags = args.overwrite ? ", overwrite" : "";
+				return new Text(
+					theme.fg("toolTitle", theme.bold("change_file ")) + theme.fg("accent", display) + target
+						+ theme.fg("muted", ` [${args.operation}${flags}]`),
+					0, 0,
+				);
+			}
 
-			const range = args.hash_start
+			const range = args.find != null
+				? ` ${JSON.stringify(args.find)} → ${JSON.stringify(args.replace ?? "")}` +
+					(args.symbol ? ` in ${args.symbol}` : args.hash_start ? ` in ${args.hash_start}${args.hash_stop ? `..${args.hash_stop}` : ""}` : "")
+				: args.edits
+				? " " + args.edits.map((e) => e.symbol ?? (e.hash_stop ? `${e.hash_start}..${e.hash_stop}` : e.hash_start)).join(", ")
+				: args.symbol
+				? ` ${args.symbol}`
+				: args.hash_start
 				? args.hash_stop
 					? ` ${args.hash_start}..${args.hash_stop}`
 					: ` ${args.hash_start}`
 				: "";
 
-			const mode = !args.hash_start ? "create"
+			const mode = args.insert_cell != null ? `insert ${args.insert_cell} cell`
+				: args.delete_cell ? "delete cell"
+				: args.find != null ? (args.regex ? "regex replace" : "find/replace")
+				: args.edits ? `${args.edits.length} edits`
+				: !args.hash_start && !args.symbol ? (args.cell != null ? "replace cell" : "create")
 				: !args.content ? "delete"
-				: args.hash_stop ? "replace"
+				: args.hash_stop || args.symbol ? "replace"
 				: "insert";
 
 			let text = theme.fg("toolTitle", theme.bold("change_file "))
@@ -248,7 +525,7 @@ export default function (pi: ExtensionAPI) {
 				if (remaining > 0) {
 					text += theme.fg("muted", `\n... (${remaining} more lines)`);
 				}
-			} else if (args.hash_start) {
+			} else if (args.hash_start && args.find == null) {
 				text += theme.fg("muted", " (delete)");
 			}
 
@@ -278,19 +555,867 @@ export default function (pi: ExtensionAPI) {
 	});
 }
 
+type EditMode = "insert" | "replace" | "delete";
+
+interface ResolvedEdit {
+	/** Position of the edit in the request, used to keep inserts at the same line in order. */
+	order: number;
+	mode: EditMode;
+	/** First affected line (1-indexed). For inserts, the line to insert before. */
+	start: number;
+	/** Last affected line (inclusive). For inserts, equal to start. */
+	stop: number;
+	/** Lines to write in place of start..stop (or before start for inserts). */
+	lines: string[];
+	/** hash_start / hash_stop as given (bare hash or anchor). */
+	hashStart: string;
+	hashStop?: string;
+	/** Bare hashes of hash_start / hash_stop. */
+	startHash: string;
+	stopHash?: string;
+	/** Whether hash_start was a line-qualified anchor. */
+	qualified: boolean;
+}
+
+/** Resolve one edit's hashes to line numbers in the pre-edit snapshot. */
+function resolveEdit(
+	fileLines: string[], item: AnchoredItem, order: number,
+	label: string, warnings: string[],
+): ResolvedEdit {
+	const { hash_start, hash_stop, offset, content } = item;
+
+	const startResult = resolveAnchor(fileLines, hash_start, offset);
+	const lineStart = startResult.line;
+	if (startResult.drift) {
+		warnings.push(`${label}Note: hash_start anchor "${hash_start}" moved to line ${lineStart}.`);
+	}
+	if (startResult.ambiguous) {
+		warnings.push(`${label}Warning: hash "${hash_start}" matches multiple lines. Using first match (line ${lineStart}). Provide offset to target a specific occurrence.`);
+	}
+
+	let lineStop: number | undefined;
+	let stopHash: string | undefined;
+	if (hash_stop != null) {
+		// For a bare hash_stop, search from lineStart so it's always at or after hash_start
+		const stopResult = resolveAnchor(fileLines, hash_stop, offset ?? lineStart);
+		lineStop = stopResult.line;
+		stopHash = stopResult.hash;
+		if (stopResult.drift) {
+			warnings.push(`${label}Note: hash_stop anchor "${hash_stop}" moved to line ${lineStop}.`);
+		}
+		if (stopResult.ambiguous) {
+			warnings.push(`${label}Warning: hash "${hash_stop}" matches multiple lines. Using first match (line ${lineStop}). Provide offset to target a specific occurrence.`);
+		}
+	}
+
+	if (lineStop != null && lineStop < lineStart) {
+		throw new Error(
+			`${label}hash_stop "${hash_stop}" resolves to line ${lineStop}, which is before ` +
+			`hash_start "${hash_start}" at line ${lineStart}.`
+		);
+	}
+
+	const mode: EditMode = !content ? "delete" : lineStop != null ? "replace" : "insert";
+	const lines = content ? content.split(/\r?\n/) : [];
+	// Drop duplicate trailing line if its hash matches the line being inserted before.
+	// Only for insert mode — in replace mode the hash_stop line is removed, so matching is expected.
+	if (mode === "insert" && lines.length > 0
+		&& lineHash(lines[lines.length - 1]) === lineHash(fileLines[lineStart - 1])) {
+		lines.pop();
+	}
+	// A trailing newline in content terminates the last line rather than adding an empty one.
+	if (content?.endsWith("\n")) lines.pop();
+
+	return {
+		order,
+		mode,
+		start: lineStart,
+		stop: lineStop ?? lineStart,
+		lines,
+		hashStart: hash_start,
+		hashStop: hash_stop,
+		startHash: startResult.hash,
+		stopHash,
+		qualified: parseAnchor(hash_start).line != null,
+	};
+}
+
+/**
+ * Look up each anchor of a batch in the (stale) read snapshot and search the
+ * current file for where that line went. `found` counts anchors the snapshot
+ * knows, `report` describes the candidates per anchor, `shown` lists every
+ * candidate offered, and `items` is set (with
+ * anchors rewritten to `<line>:<hash>`) only if every anchor has exactly one
+ * high-confidence candidate.
+ */
+function relocateItems(
+	items: AnchoredItem[], snapshot: ReadSnapshot, fileLines: string[], width: number,
+	label: (i: number) => string,
+): { items?: AnchoredItem[]; found: number; report: string[]; notes: string[]; shown: { line: number; text: string }[] } {
+	const report: string[] = [];
+	const notes: string[] = [];
+	const shown: { line: number; text: string }[] = [];
+	let complete = true;
+	let found = 0;
+
+	const relocate = (anchor: string, field: string, i: number, offset?: number): { anchor?: string; oldLine?: number } => {
+		const { line, hash } = parseAnchor(anchor);
+		const oldLine = findShown(snapshot, hash, { line, offset })[0];
+		if (oldLine == null) {
+			report.push(`${label(i)}${field} "${anchor}" was not shown in your last read; no candidates.`);
+			return {};
+		}
+		found++;
+		const oldText = snapshot.shown.get(oldLine)!.text;
+		const { candidates, confident } = findCandidates(fileLines, oldLine, oldText, width);
+		shown.push(...candidates);
+		report.push(
+			`${label(i)}${field} "${anchor}" (line ${oldLine} in your last read: ${JSON.stringify(preview(oldText))}) ` +
+			(candidates.length > 0 ? "is now likely one of:" : "has no similar line nearby."),
+			...candidates.map((c) => "  " + formatCandidate(c)),
+		);
+		if (!confident) return { oldLine };
+		notes.push(
+			`${label(i)}Note: relocated ${field} "${anchor}" (line ${oldLine} when last read) to ` +
+			`${confident.line}:${confident.hash} because the file changed since it was read.`
+		);
+		return { anchor: `${confident.line}:${confident.hash}`, oldLine };
+	};
+
+	const relocated = items.map((item, i) => {
+		const start = relocate(item.hash_start, "hash_start", i, item.offset);
+		// As in resolveEdit, a bare hash_stop is searched from hash_start onwards
+		const stop = item.hash_stop != null
+			? relocate(item.hash_stop, "hash_stop", i, item.offset ?? start.oldLine)
+			: undefined;
+		if (start.anchor == null || (stop != null && stop.anchor == null)) complete = false;
+		return { ...item, hash_start: start.anchor ?? item.hash_start, hash_stop: stop?.anchor, offset: undefined };
+	});
+
+	return { items: complete ? relocated : undefined, found, report, notes, shown };
+}
+
+/** Top-to-bottom order; inserts go before a range starting at the same line. */
+function byPosition(a: ResolvedEdit, b: ResolvedEdit): number {
+	return a.start - b.start
+		|| Number(a.mode !== "insert") - Number(b.mode !== "insert")
+		|| a.order - b.order;
+}
+
+/**
+ * Reject batches whose ranges overlap. Inserts occupy the gap before their
+ * line, so they may sit right before or after a range but not inside one.
+ */
+function checkOverlaps(edits: ResolvedEdit[]): void {
+	const sorted = [...edits].sort(byPosition);
+	for (let i = 1; i < sorted.length; i++) {
+		const prev = sorted[i - 1], cur = sorted[i];
+		const prevEnd = prev.mode === "insert" ? prev.start - 1 : prev.stop;
+		if (cur.start <= prevEnd) {
+			throw new Error(
+				`edits[${prev.order}] (lines ${prev.start}-${prev.stop}) and edits[${cur.order}] ` +
+				`(lines ${cur.start}-${cur.stop}) overlap. No changes were made.`
+			);
+		}
+	}
+}
+
+/**
+ * Apply resolved edits to a copy of the file, bottom-up so earlier line numbers
+ * stay valid. New lines use the file's EOL style; untouched lines keep their own
+ * endings, and the file's final-newline state is kept whichever edit touches it.
+ */
+function applyEdits(file: TextFile, edits: ResolvedEdit[]): TextFile {
+	const lines = [...file.lines];
+	const endings = [...file.endings];
+	for (const edit of [...edits].sort(byPosition).reverse()) {
+		const removed = edit.mode === "insert" ? 0 : edit.stop - edit.start + 1;
+		lines.splice(edit.start - 1, removed, ...edit.lines);
+		endings.splice(edit.start - 1, removed, ...edit.lines.map(() => file.eol));
+	}
+	if (endings.length > 0) {
+		const last = endings.length - 1;
+		endings[last] = hasFinalNewline(file) ? endings[last] || file.eol : "";
+	}
+	return { ...file, lines, endings };
+}
+
+/**
+ * Compute where each edit's new lines ended up in the edited file.
+ * Returns ranges in request order; first > last when nothing was written.
+ */
+function newLineRanges(edits: ResolvedEdit[]): { edit: ResolvedEdit; first: number; last: number }[] {
+	const sorted = [...edits].sort(byPosition);
+	const ranges = new Map<ResolvedEdit, { first: number; last: number }>();
+	let shift = 0;
+	for (const edit of sorted) {
+		const first = edit.start + shift;
+		ranges.set(edit, { first, last: first + edit.lines.length - 1 });
+		const removed = edit.mode === "insert" ? 0 : edit.stop - edit.start + 1;
+		shift += edit.lines.length - removed;
+	}
+	return edits.map((edit) => ({ edit, ...ranges.get(edit)! }));
+}
+
+/** Resolved edits as snapshot changes, top to bottom. */
+function snapshotChanges(edits: ResolvedEdit[]): SnapshotChange[] {
+	return [...edits].sort(byPosition).map((edit) => ({
+		start: edit.start,
+		removed: edit.mode === "insert" ? 0 : edit.stop - edit.start + 1,
+		lines: edit.lines,
+	}));
+}
+
+/** One line per edit saying what it did, with the hashes of the lines it wrote. */
+function editMessages(
+	edits: ResolvedEdit[], symbols: Map<number, { symbol: string; display: string }>, filePath: string, width: number,
+): string {
+	return newLineRanges(edits).map(({ edit, first, last }) => {
+		let newRange = "";
+		if (first <= last) {
+			// Answer in the form the model used, so anchors stay copy-pasteable
+			const tag = (n: number) => (edit.qualified ? `${n}:` : "") + lineHash(edit.lines[n - first], width);
+			const firstHash = tag(first);
+			const lastHash = tag(last);
+			newRange = firstHash === lastHash
+				? ` with ${firstHash}`
+				: ` with ${firstHash}..${lastHash}`;
+		}
+		const sym = symbols.get(edit.order);
+		const message = sym
+			? edit.mode === "delete"
+				? `Deleted ${sym.display} from ${filePath}`
+				: `Replaced ${sym.display} in ${filePath}`
+			: buildMessage(edit.mode, filePath, edit.hashStart, edit.hashStop);
+		return `${message}${newRange}.`;
+	}).join("\n");
+}
+
+interface Substitution {
+	/** The range's lines after substitution. */
+	lines: string[];
+	count: number;
+	/** Line of each match, in the file before the edit. */
+	matchLines: number[];
+}
+
+/** Matching lines listed in find results and count mismatches. */
+const MAX_LISTED_LINES = 30;
+
+/**
+ * Replace `find` in lines start..stop of `fileLines`. The range is matched as
+ * one text joined by "\n", so a regex may span lines (and replacements may add
+ * or remove them). Literal replacements are inserted as is; regex ones expand
+ * `$1`, `$<name>` and `$&`.
+ */
+function substitute(
+	fileLines: string[], start: number, stop: number, find: string, replace: string, regex: boolean,
+): Substitution {
+	let pattern: RegExp;
+	try {
+		pattern = new RegExp(regex ? find : find.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "gm");
+	} catch (err) {
+		throw new Error(`Invalid regex ${JSON.stringify(find)}: ${err instanceof Error ? err.message : String(err)}`);
+	}
+	const text = fileLines.slice(start - 1, stop).join("\n");
+
+	const matchLines: number[] = [];
+	let line = start, scanned = 0;
+	for (const m of text.matchAll(pattern)) {
+		for (let i = text.indexOf("\n", scanned); i >= 0 && i < m.index; i = text.indexOf("\n", i + 1)) line++;
+		scanned = m.index;
+		matchLines.push(line);
+	}
+	const replaced = regex ? text.replace(pattern, replace) : text.replace(pattern, () => replace);
+	return { lines: replaced.split("\n"), count: matchLines.length, matchLines };
+}
+
+/** Reject a substitution in `where` with no matches, or not the number the model expected. */
+function checkMatches(substitution: Substitution, { find, expected_count }: Params, where: string): void {
+	if (expected_count != null && substitution.count !== expected_count) {
+		throw new Error(
+			`Expected ${expected_count} ${expected_count === 1 ? "match" : "matches"} of ${JSON.stringify(find)} in ${where}, ` +
+			`found ${substitution.count}${describeMatchLines(substitution.matchLines)}. Nothing was written.`
+		);
+	}
+	if (substitution.count === 0) throw new Error(`No matches of ${JSON.stringify(find)} in ${where}. Nothing was written.`);
+}
+
+/** `Replaced 3 matches of "x" in <where>.` with the lines the substitution changed in `scope`. */
+function substitutionMessage(
+	substitution: Substitution, find: string, where: string, scope: ResolvedEdit, fileLines: string[], width: number,
+): string {
+	return `Replaced ${substitution.count} ${substitution.count === 1 ? "match" : "matches"} of ${JSON.stringify(find)} in ${where}.` +
+		changedLines(fileLines.slice(scope.start - 1, scope.stop), substitution.lines, scope.start, width);
+}
+
+/** ` (on lines 3, 7, 12)` for a count mismatch, or "" without matches. */
+function describeMatchLines(matchLines: number[]): string {
+	const unique = [...new Set(matchLines)];
+	if (unique.length === 0) return "";
+	const more = unique.length > MAX_LISTED_LINES ? `, and ${unique.length - MAX_LISTED_LINES} more` : "";
+	return ` (on ${unique.length === 1 ? "line" : "lines"} ${unique.slice(0, MAX_LISTED_LINES).join(", ")}${more})`;
+}
+
+/** The lines a substitution changed, as `<line>:<hash>|<content>` anchors of the edited file. */
+function changedLines(before: string[], after: string[], start: number, width: number): string {
+	const changed = diffLines(before, after).filter((e) => e.type === "a");
+	if (changed.length === 0) return "";
+	const listed = changed.slice(0, MAX_LISTED_LINES)
+		.map((e) => `${start + e.line - 1}:${lineHash(e.text, width)}|${e.text}`);
+	if (changed.length > MAX_LISTED_LINES) listed.push(`... ${changed.length - MAX_LISTED_LINES} more changed lines`);
+	return `\nChanged lines:\n${listed.join("\n")}`;
+}
+
 function buildMessage(
 	mode: string, filePath: string,
 	hashStart: string, hashStop: string | undefined,
 ): string {
 	if (mode === "delete") {
 		return hashStop != null && hashStop !== hashStart
-			? `Deleted ${hashStart}..${hashStop} from ${filePath}.`
-			: `Deleted ${hashStart} from ${filePath}.`;
+			? `Deleted ${hashStart}..${hashStop} from ${filePath}`
+			: `Deleted ${hashStart} from ${filePath}`;
 	}
 	if (mode === "replace") {
-		return `Replaced ${hashStart}..${hashStop} in ${filePath}.`;
+		return `Replaced ${hashStart}..${hashStop} in ${filePath}`;
+	}
+	return `Inserted before ${hashStart} in ${filePath}`;
+}
+
+function dryRunResult(filePath: string, warnings: string[], diff: string, firstChangedLine?: number) {
+	const msg = `Dry run: nothing was written. The change to ${filePath} would be:\n\n${diff}`;
+	return {
+		content: [{ type: "text" as const, text: warnings.length > 0 ? warnings.join("\n") + "\n" + msg : msg }],
+		details: { diff, firstChangedLine } as EditToolDetails,
+	};
+}
+
+/**
+ * Ask the user to accept a write if the approval config (config.ts) covers it.
+ * Returns whether the user was asked; throws if they rejected the change or
+ * approval is required but there is no UI to ask in.
+ */
+async function approveWrite(
+	ctx: ExtensionContext, absPath: string, filePath: string, diff: string, overwrite: boolean,
+): Promise<boolean> {
+	if (!approvalRequired(ctx, [absPath], overwrite)) return false;
+
+	if (!ctx.hasUI) {
+		throw new Error(`Changes to ${filePath} require user approval, but no interactive UI is available. Nothing was written.`);
+	}
+	const summary = diffSummary(diff);
+	const title = `${overwrite ? "Overwrite" : "Change"} ${filePath}${summary ? ` (${summary})` : ""}?`;
+	if (!(await ctx.ui.confirm(title, renderDiff(diff)))) {
+		throw new Error(
+			`The user rejected the change to ${filePath}. Nothing was written. ` +
+			`Ask the user how to proceed instead of retrying the same change.`
+		);
+	}
+	return true;
+}
+
+/** Whether the approval rules in hh-read.json gate a write to any of `absPaths`. */
+function approvalRequired(ctx: ExtensionContext, absPaths: string[], overwrite: boolean): boolean {
+	const { approval } = loadConfig(ctx.cwd);
+	return !!approval.always
+		|| (approval.paths != null && absPaths.some((p) => matchesGlob(path.relative(ctx.cwd, p), approval.paths!)))
+		|| (overwrite && !!approval.overwrite);
+}
+
+/**
+ * Edit a Jupyter notebook by cell (see notebook.ts): change a cell's source by
+ * its anchors (or find/replace in it), replace its source whole, or insert or
+ * delete a cell. Anchors are resolved within the cell and checked against the
+ * read snapshot under their notebook lines. Edited code cells lose their
+ * outputs, which no longer match their source; everything else is written
+ * back as it was.
+ */
+async function editNotebook(
+	pi: ExtensionAPI, ctx: ExtensionContext, params: Params, absPath: string, signal: AbortSignal | undefined,
+) {
+	const { path: filePath, cell, insert_cell, delete_cell, hash_start, hash_stop, offset, content, symbol, edits } = params;
+	const { find, replace, regex, dry_run } = params;
+	if (cell == null) {
+		throw new Error(
+			`${filePath} is a Jupyter notebook: pass cell (numbered as read shows them) with that cell's anchors, ` +
+			`or with insert_cell or delete_cell.`
+		);
+	}
+	if (symbol != null) throw new Error("symbol is not available in notebooks; pass cell and that cell's anchors.");
+	const cellOp = insert_cell != null || !!delete_cell;
+	if (cellOp && (hash_start != null || hash_stop != null || offset != null || edits != null || find != null)) {
+		throw new Error("insert_cell and delete_cell act on whole cells; don't pass hashes, edits or find.");
+	}
+	if (insert_cell != null && delete_cell) throw new Error("Pass either insert_cell or delete_cell, not both.");
+	const type = CELL_TYPES.find((t) => t === insert_cell);
+	if (insert_cell != null && !type) throw new Error(`Unknown cell type "${insert_cell}": expected ${CELL_TYPES.join(", ")}.`);
+
+	const raw = await readFile(absPath, "utf-8");
+	const nb = parseNotebook(raw, filePath);
+	const cells = nb.json.cells;
+	const last = type ? cells.length + 1 : cells.length;
+	if (!Number.isInteger(cell) || cell < 1 || cell > last) {
+		throw new Error(
+			`${filePath} has no cell ${cell}: it has ${cells.length} ${cells.length === 1 ? "cell" : "cells"}` +
+			(type ? ` (cell: ${cells.length + 1} appends).` : ".")
+		);
+	}
+	const snapshot = getSnapshot(ctx, absPath);
+	assertFresh(snapshot, contentDigest(raw), filePath);
+
+	const before = notebookView(nb);
+	const { lines: oldLines, starts } = notebookLines(nb);
+	// Notebook line of the cell's first line (see notebookLines)
+	const first = cell <= cells.length ? starts[cell - 1] : oldLines.length + 1;
+	const source = cell <= cells.length ? cellSource(cells[cell - 1]) : [];
+	const where = `cell ${cell} of ${filePath}`;
+	const cellShown = () => {
+		if (source.every((line, i) => line === "" || snapshot.shown.get(first + i)?.text === line)) return;
+		throw new Error(`Cell ${cell} was not shown in full in your last read of ${filePath}. Read it with change_file: true first.`);
+	};
+
+	const warnings: string[] = [];
+	let changes: SnapshotChange[];
+	let message: (width: number) => string;
+	let logged = { mode: "replace_cell", anchors: [`cell ${cell}`] };
+	let cleared = false;
+	if (type) {
+		const lines = contentLines(content);
+		cells.splice(cell - 1, 0, newCell(nb, type, lines));
+		changes = [{ start: first, removed: 0, lines }];
+		logged.mode = "insert_cell";
+		message = (width) => `Inserted ${type} cell ${cell} in ${filePath}${cellAnchors(lines, width)}; later cells are renumbered.`;
+	} else if (delete_cell) {
+		if (content != null) throw new Error("delete_cell takes no content.");
+		cellShown();
+		const [removed] = cells.splice(cell - 1, 1);
+		changes = [{ start: first, removed: source.length, lines: [] }];
+		logged.mode = "delete_cell";
+		message = () => `Deleted ${removed.cell_type} cell ${cell} from ${filePath}; later cells are renumbered.`;
+	} else if (hash_start == null && edits == null && find == null) {
+		if (content == null) {
+			throw new Error(`Pass content to replace the source of ${where}, hash_start to edit part of it, or delete_cell: true.`);
+		}
+		cellShown();
+		const lines = contentLines(content);
+		setCellSource(cells[cell - 1], lines);
+		cleared = clearOutputs(cells[cell - 1]);
+		changes = [{ start: first, removed: source.length, lines }];
+		message = (width) => `Replaced the source of ${where}${cellAnchors(lines, width)}.`;
+	} else {
+		// The cell's source is edited like a file of its own, with anchors numbered within it
+		const requested: EditItem[] = edits ?? (find != null && hash_start == null ? [] : [{ hash_start, hash_stop, offset, content }]);
+		if (requested.length === 0 && find == null) throw new Error("edits must contain at least one edit.");
+		const label = (i: number) => requested.length > 1 ? `edits[${i}]: ` : "";
+		let resolved = requested.map((item, i) => {
+			if (item.symbol != null) throw new Error(`${label(i)}symbol is not available in notebooks.`);
+			if (item.hash_start == null) throw new Error(`${label(i)}Provide hash_start.`);
+			const edit = resolveEdit(source, { ...item, hash_start: item.hash_start }, i, label(i), warnings);
+			for (const [line, hash] of [[edit.start, edit.startHash], [edit.stop, edit.stopHash]] as const) {
+				if (hash == null || hash.length < snapshot.width) continue;
+				if (!snapshot.shown.get(first + line - 1)?.hash.endsWith(hash)) {
+					throw new Error(
+						`${label(i)}Hash "${hash}" (line ${line} of ${where}) was not shown in your last read of this notebook. ` +
+						`Re-read it with change_file: true.`
+					);
+				}
+			}
+			// Reports a hash that is too short
+			assertShown(snapshot, first + edit.start - 1, edit.startHash, label(i));
+			return edit;
+		});
+		checkOverlaps(resolved);
+
+		let substitution: Substitution | undefined;
+		if (find != null) {
+			const scope: ResolvedEdit = resolved[0] ?? {
+				order: 0, mode: "replace", start: 1, stop: source.length, lines: [], hashStart: "", startHash: "", qualified: true,
+			};
+			substitution = substitute(source, scope.start, scope.stop, find, replace!, !!regex);
+			const scopeWhere = resolved.length > 0 ? `lines ${scope.start}–${scope.stop} of ${where}` : where;
+			checkMatches(substitution, params, scopeWhere);
+			resolved = [{ ...scope, mode: "replace", lines: substitution.lines }];
+			const sub = substitution;
+			message = (width) => substitutionMessage(sub, find, scopeWhere, resolved[0], source, width);
+		} else {
+			message = (width) => editMessages(resolved, new Map(), where, width);
+		}
+
+		const anchors = logAnchors(resolved, new Map());
+		logged = { mode: logMode(resolved, find), anchors: anchors.length > 0 ? anchors.map((a) => `cell ${cell} ${a}`) : logged.anchors };
+		setCellSource(cells[cell - 1], applyEdits(parseText(source.join("\n")), resolved).lines);
+		cleared = clearOutputs(cells[cell - 1]);
+		changes = snapshotChanges(resolved).map((c) => ({ ...c, start: first + c.start - 1 }));
+	}
+
+	const written = formatNotebook(nb);
+	if (written === raw) return { content: [{ type: "text" as const, text: `No changes made to ${filePath}.` }] };
+	const { diff, firstChangedLine } = formatUnifiedDiff(diffLines(before, notebookView(nb)));
+	if (dry_run) return dryRunResult(filePath, warnings, diff, firstChangedLine);
+	if (await approveWrite(ctx, absPath, filePath, diff, false)) await assertUnchanged(absPath, raw, filePath);
+
+	if (signal?.aborted) throw new Error("Operation aborted");
+	await writeFileAtomic(absPath, written);
+	const validation = await validateWrite(pi, ctx, absPath, filePath, parseText(written).lines, raw, "utf-8", signal);
+	const { lines } = notebookLines(nb);
+	const width = hashWidth(lines, hashSettings(ctx).width);
+	recordEdit(ctx, absPath, { digest: contentDigest(written), mtimeMs: (await stat(absPath)).mtimeMs, width, lines }, changes);
+	logJournaled(ctx, recordChange(ctx, { files: [{ absPath, displayPath: filePath, before: raw, after: written }], summary: diffSummary(diff) }),
+		logged.mode, logged.anchors);
+
+	const msg = message(width) + (cleared ? `\nThe outputs of cell ${cell} were cleared, as they no longer match its source.` : "") + validation;
+	return {
+		content: [{ type: "text" as const, text: warnings.length > 0 ? warnings.join("\n") + "\n" + msg : msg }],
+		details: { diff, firstChangedLine } as EditToolDetails,
+	};
+}
+
+/** The whole notebook as read shows it without hashes, for diffs. */
+function notebookView(nb: Notebook): string[] {
+	return renderNotebook(nb, 1, nb.json.cells.length, 2, false).output;
+}
+
+/** Model-written content as lines; a trailing newline ends the last line rather than adding one. */
+function contentLines(content: string | undefined): string[] {
+	if (!content) return [];
+	const lines = content.split(/\r?\n/);
+	if (content.endsWith("\n")) lines.pop();
+	return lines;
+}
+
+/** ` with 1:a3..4:Xy`, the anchors of a cell's new source, or "" if it is empty. */
+function cellAnchors(lines: string[], width: number): string {
+	if (lines.length === 0) return "";
+	const tag = (n: number) => `${n}:${lineHash(lines[n - 1], width)}`;
+	return lines.length === 1 ? ` with ${tag(1)}` : ` with ${tag(1)}..${tag(lines.length)}`;
+}
+
+/**
+ * Apply anchored edits, or a find/replace between anchors, to a file too large
+ * to load whole (see stream.ts). Only the lines an edit can refer to are read:
+ * a `<line>:<hash>` anchor is looked for within ANCHOR_DRIFT lines of its line,
+ * a bare hash within the DEFAULT_MAX_LINES lines a read at its offset shows.
+ * The file is written by streaming it through, new lines in the encoding its
+ * start was read in (see streamEncoding). Stale hashes are not relocated,
+ * and the edit is neither journaled nor validated, as all of these need the
+ * whole file.
+ */
+async function editLargeFile(
+	ctx: ExtensionContext, params: Params, absPath: string, size: number, signal: AbortSignal | undefined,
+) {
+	const { path: filePath, hash_start, hash_stop, offset, content, symbol, edits, find, replace, regex, dry_run } = params;
+	const alternative = `At this size change_file only edits between hashes: pass hash_start (and hash_stop) ` +
+		`as "<line>:<hash>" anchors from read with anchors: true, or with the offset you read with.`;
+	if (hash_start == null && symbol == null && edits == null) {
+		throw wholeFileError(filePath, size, find != null ? "find/replace without hash_start" : "overwriting it", alternative);
+	}
+	const requested: EditItem[] = edits ?? [{ hash_start, hash_stop, offset, content, symbol }];
+	if (requested.length === 0) throw new Error("edits must contain at least one edit.");
+	if (requested.some((item) => item.symbol != null)) throw wholeFileError(filePath, size, "symbol", alternative);
+	const label = (i: number) => requested.length > 1 ? `edits[${i}]: ` : "";
+
+	const digest = largeFileDigest(await stat(absPath));
+	const snapshot = getSnapshot(ctx, absPath);
+	assertFresh(snapshot, digest, filePath);
+
+	const sample = await readBytes(absPath, 0, SNIFF_BYTES);
+	const encoding = streamEncoding(sample);
+	if (!encoding) {
+		const detected = detectEncoding(sample);
+		throw wholeFileError(filePath, size, `decoding ${detected ? ENCODING_NAMES[detected] : "a binary file"}`,
+			"Convert it to UTF-8 with the shell to edit it in windows.");
+	}
+
+	const bounds = requested.map((item, i) => anchorBounds(item, label(i)));
+	// CONTEXT more lines on each side, for the diff
+	const scanned = await scanLines(absPath, bounds.map((b) => ({ from: b.from - CONTEXT, to: b.to + CONTEXT })), signal, encoding);
+	if (scanned.malformed) {
+		throw new Error(
+			`${filePath} starts as UTF-8, but lines around this edit are not; change_file can't tell which encoding ` +
+			`to write them in, so nothing was written. Fix or convert the file with the shell first.`
+		);
+	}
+	const fileLines = lineArray(scanned.lines);
+
+	const warnings: string[] = [];
+	let resolved = requested.map((item, i) => {
+		const edit = resolveEdit(fileLines, { ...item, hash_start: item.hash_start! }, i, label(i), warnings);
+		const { from, to } = bounds[i];
+		// A bare hash may also match in the lines scanned for another edit
+		const outside = edit.start < from || edit.start > to ? edit.hashStart
+			: edit.stop > to ? edit.hashStop : undefined;
+		if (outside != null) {
+			throw new Error(
+				`${label(i)}Hash "${outside}" not found within lines ${from}–${to}. ` +
+				`The file may have changed — re-read before editing.`
+			);
+		}
+		assertShown(snapshot, edit.start, edit.startHash, label(i));
+		if (edit.stopHash != null) assertShown(snapshot, edit.stop, edit.stopHash, label(i));
+		return edit;
+	});
+	checkOverlaps(resolved);
+
+	let substitution: Substitution | undefined;
+	if (find != null) {
+		const scope = resolved[0];
+		substitution = substitute(fileLines, scope.start, scope.stop, find, replace!, !!regex);
+		checkMatches(substitution, params, `lines ${scope.start}–${scope.stop} of ${filePath}`);
+		resolved = [{ ...scope, mode: "replace", lines: substitution.lines }];
+	}
+
+	const changes = snapshotChanges(resolved);
+	assertEncodable(filePath, { encoding, lossless: true }, changes.flatMap((c) => c.lines).join("\n"));
+	const entries = windowEntries(fileLines, changes);
+	const { diff, firstChangedLine } = formatUnifiedDiff(entries);
+	if (firstChangedLine === undefined) {
+		return { content: [{ type: "text" as const, text: `No changes made to ${filePath}.` }] };
+	}
+	if (dry_run) return dryRunResult(filePath, warnings, diff, firstChangedLine);
+	if (await approveWrite(ctx, absPath, filePath, diff, false) && largeFileDigest(await stat(absPath)) !== digest) {
+		throw new Error(`${staleMessage(filePath)} Nothing was written; re-read it with change_file: true and retry.`);
+	}
+
+	if (signal?.aborted) throw new Error("Operation aborted");
+	await rewriteLines(absPath, changes, scanned.eol, signal, encoding);
+	const written = await stat(absPath);
+	recordEdit(ctx, absPath, { digest: largeFileDigest(written), mtimeMs: written.mtimeMs, width: LARGE_FILE_WIDTH }, changes);
+	logChange(ctx, {
+		mode: logMode(resolved, find), anchors: logAnchors(resolved, new Map()), summary: diffSummary(diff),
+		files: [{ absPath, window: { entries, eol: scanned.eol } }],
+	});
+
+	const msg = (substitution
+		? substitutionMessage(substitution, find!, `lines ${resolved[0].start}–${resolved[0].stop} of ${filePath}`,
+			resolved[0], fileLines, LARGE_FILE_WIDTH)
+		: editMessages(resolved, new Map(), filePath, LARGE_FILE_WIDTH)) +
+		`\n\n${filePath} is ${formatSize(size)}, so this change was not recorded for undo and no validators ran.`;
+	return {
+		content: [{ type: "text" as const, text: warnings.length > 0 ? warnings.join("\n") + "\n" + msg : msg }],
+		details: { diff, firstChangedLine } as EditToolDetails,
+	};
+}
+
+/**
+ * The lines an edit's hashes may resolve to in a large file, from what read
+ * could have shown: a `<line>:<hash>` anchor within ANCHOR_DRIFT lines of its
+ * line, a bare hash within DEFAULT_MAX_LINES of where it is searched from.
+ */
+function anchorBounds(item: EditItem, label: string): LineRange {
+	if (item.hash_start == null) throw new Error(`${label}Provide hash_start.`);
+	const start = parseAnchor(item.hash_start).line;
+	const stop = item.hash_stop != null ? parseAnchor(item.hash_stop).line : undefined;
+	if (start == null && item.offset == null) {
+		throw new Error(
+			`${label}Hash "${item.hash_start}" needs the offset you read it with in a file this large, ` +
+			`or pass a "<line>:<hash>" anchor from read with anchors: true.`
+		);
+	}
+
+	// Bare hashes are searched from offset, or (hash_stop) from hash_start's line
+	const bareEnd = (item.offset ?? start!) + DEFAULT_MAX_LINES - 1;
+	const from = start != null ? Math.max(1, start - ANCHOR_DRIFT) : item.offset!;
+	let to = start != null ? start + ANCHOR_DRIFT : bareEnd;
+	if (item.hash_stop != null) to = Math.max(to, stop != null ? stop + ANCHOR_DRIFT : bareEnd);
+	return { from, to };
+}
+
+/**
+ * Move, copy or delete a whole file. The source must not have changed since
+ * the model last read it with hashes; a destination that exists is only
+ * replaced with `overwrite` (and, per policy, if it was read too). The change
+ * is journaled like an edit, and the source's read snapshot follows the file.
+ */
+async function fileOperation(
+	ctx: ExtensionContext, operation: FileOperation, absPath: string, filePath: string,
+	destination: string | undefined, overwrite: boolean, dryRun: boolean,
+) {
+	const { size } = await stat(absPath);
+	if (size > LARGE_FILE_BYTES) {
+		throw wholeFileError(filePath, size, `operation "${operation}" (which keeps it for undo)`, "Use the shell for this file.");
+	}
+	// Kept as text for undo, so it must round-trip
+	const source = await readTextFile(absPath, filePath);
+	const { raw, encoding } = source;
+	assertEncodable(filePath, source);
+	assertFresh(getSnapshot(ctx, absPath), contentDigest(raw), filePath);
+
+	if (operation === "delete_file") {
+		if (destination != null || overwrite) throw new Error("delete_file takes no destination or overwrite.");
+		await checkWrite(ctx, absPath, filePath, { replace: false });
+		const summary = `Deleted ${filePath} (${countLines(raw)} lines).`;
+		if (dryRun) return { content: [{ type: "text" as const, text: `Dry run: nothing was written. ${summary}` }] };
+		await confirmOperation(ctx, [absPath], false, `Delete ${filePath}?`);
+		await assertUnchanged(absPath, raw, filePath);
+		const { mode } = await stat(absPath);
+		await unlink(absPath);
+		logJournaled(ctx, recordChange(ctx, {
+			files: [{ absPath, displayPath: filePath, before: raw, encoding: { before: encoding }, mode }], summary: "deleted",
+		}), operation);
+		transferSnapshot(ctx, absPath, undefined, { keep: false });
+		return { content: [{ type: "text" as const, text: summary }] };
+	}
+
+	if (destination == null) throw new Error(`operation "${operation}" needs a destination.`);
+	const destAbs = path.isAbsolute(destination) ? destination : path.resolve(ctx.cwd, destination);
+	if (path.resolve(destAbs) === path.resolve(absPath)) throw new Error(`destination is ${filePath} itself.`);
+	const destStat = await stat(destAbs).catch(() => undefined);
+	if (destStat?.isDirectory()) throw new Error(`${destination} is a directory; pass the full path of the new file.`);
+	if (destStat && !overwrite) throw new Error(`${destination} already exists. Pass overwrite: true to replace it.`);
+	if (operation === "move") await checkWrite(ctx, absPath, filePath, { replace: false });
+	else await checkRead(ctx.cwd, absPath, filePath);
+	await checkWrite(ctx, destAbs, destination, { replace: true });
+	const existing = destStat ? await readTextFile(destAbs, destination) : undefined;
+	if (existing) assertEncodable(destination, existing);
+	const replaced = existing?.raw;
+
+	const verb = operation === "move" ? "Moved" : "Copied";
+	const summary = `${verb} ${filePath} to ${destination}${replaced !== undefined ? " (replacing it)" : ""}.`;
+	if (dryRun) return { content: [{ type: "text" as const, text: `Dry run: nothing was written. ${summary}` }] };
+	const title = `${operation === "move" ? "Move" : "Copy"} ${filePath} to ${destination}${replaced !== undefined ? ", replacing it" : ""}?`;
+	await confirmOperation(ctx, operation === "move" ? [absPath, destAbs] : [destAbs], replaced !== undefined, title);
+	await assertUnchanged(absPath, raw, filePath);
+	await assertUnchanged(destAbs, replaced, destination);
+
+	await mkdir(path.dirname(destAbs), { recursive: true });
+	if (operation === "copy") {
+		await copyFile(absPath, destAbs);
+	} else {
+		// rename can't cross filesystems; fall back to copy + delete
+		await rename(absPath, destAbs).catch(async (err) => {
+			if (err?.code !== "EXDEV") throw err;
+			await copyFile(absPath, destAbs);
+			await unlink(absPath);
+		});
+	}
+
+	// rename and copyFile both carry the source's mode over
+	const { mode } = await stat(destAbs);
+	const destChange = {
+		absPath: destAbs, displayPath: destination, before: replaced, after: raw,
+		encoding: { before: existing?.encoding, after: encoding }, mode,
+	};
+	logJournaled(ctx, recordChange(ctx, operation === "move"
+		? { files: [{ absPath, displayPath: filePath, before: raw, encoding: { before: encoding }, mode }, destChange], summary: `moved to ${destination}` }
+		: { files: [destChange], summary: `copied from ${filePath}` }), operation);
+	transferSnapshot(ctx, absPath, destAbs, { keep: operation === "copy" });
+	return { content: [{ type: "text" as const, text: `${summary} Hashes you read for ${filePath} are valid for ${destination}.` }] };
+}
+
+/** Ask the user before a file operation the approval rules gate (see approveWrite). */
+async function confirmOperation(ctx: ExtensionContext, absPaths: string[], overwrite: boolean, title: string): Promise<void> {
+	if (!approvalRequired(ctx, absPaths, overwrite)) return;
+	if (!ctx.hasUI) {
+		throw new Error(`This change requires user approval, but no interactive UI is available. Nothing was written.`);
+	}
+	if (!(await ctx.ui.confirm(title, ""))) {
+		throw new Error(
+			`The user rejected the change. Nothing was written. ` +
+			`Ask the user how to proceed instead of retrying the same change.`
+		);
+	}
+}
+
+function countLines(raw: string): number {
+	return raw === "" ? 0 : parseText(raw).lines.length;
+}
+
+/**
+ * Refuse a file that would not be written back byte for byte (malformed
+ * UTF-16), and `written` text with characters its encoding can't represent
+ * (see textfile.ts).
+ */
+function assertEncodable(filePath: string, file: { encoding: TextEncoding; lossless: boolean }, written?: string): void {
+	const name = ENCODING_NAMES[file.encoding];
+	if (!file.lossless) {
+		throw new Error(
+			`${filePath} is not valid ${name}, so change_file can't write it back without changing bytes you didn't edit. ` +
+			`Fix or convert it with the shell first.`
+		);
+	}
+	const char = written != null ? unencodable(written, file.encoding) : undefined;
+	if (char != null) {
+		const code = char.codePointAt(0)!.toString(16).toUpperCase().padStart(4, "0");
+		throw new Error(
+			`${filePath} is ${name}, which can't represent "${char}" (U+${code}), so nothing was written. ` +
+			`Use characters ${name} has, or convert the file to UTF-8 with the shell first.`
+		);
+	}
+}
+
+/** Make sure the file was not changed while the user was reviewing the diff. */
+async function assertUnchanged(absPath: string, expected: string | undefined, filePath: string): Promise<void> {
+	// null: it exists, but not as text
+	const current = await readTextFile(absPath).then((f) => f.raw, (err) => (err?.code === "ENOENT" ? undefined : null));
+	if (current !== expected) {
+		throw new Error(`${staleMessage(filePath)} Nothing was written; re-read it with change_file: true and retry.`);
+	}
+}
+
+/**
+ * Run the validators configured for the file (validate.ts) on what was just
+ * written, and describe their findings with the new anchors. If one with
+ * revert_on_error reports errors, the file is restored to `before` (in
+ * `encoding`; deleted if it was created, with the directories from `madeDir`
+ * down made for it) and the call fails.
+ */
+async function validateWrite(
+	pi: ExtensionAPI, ctx: ExtensionContext, absPath: string, filePath: string,
+	lines: string[], before: string | undefined, encoding: TextEncoding, signal: AbortSignal | undefined,
+	madeDir?: string,
+): Promise<string> {
+	const written = (await readTextFile(absPath, filePath)).raw;
+	const results = await runValidators(pi.exec.bind(pi), ctx.cwd, absPath, written, loadConfig(ctx.cwd).validators, signal);
+	const failed = results.filter((r) => r.diagnostics.length > 0);
+	const describe = (anchor: (line: number) => string) => failed.map((r) =>
+		`${r.name} reported ${r.diagnostics.length === 1 ? "1 error" : `${r.diagnostics.length} errors`}:\n` +
+		r.diagnostics.map((d) => `  ${d.line != null ? anchor(d.line) + " " : ""}${d.message}`).join("\n")
+	).join("\n");
+
+	const reverter = failed.find((r) => r.revert);
+	if (reverter) {
+		let kept: string | undefined;
+		if (before !== undefined) await writeFileAtomic(absPath, before, encoding);
+		else {
+			await unlink(absPath);
+			if (madeDir != null) kept = await removeMadeDirs(path.dirname(absPath), madeDir);
+		}
+		const outcome = before !== undefined ? "the file was restored to its content before this call. Nothing was changed"
+			: kept == null ? "the new file was removed. Nothing was changed"
+			: `the new file was removed, but ${path.relative(ctx.cwd, kept) || "."} (made for it) is no longer empty and was kept`;
+		throw new Error(
+			`Reverted: ${reverter.name} reported errors after the change to ${filePath}, so ${outcome}; ` +
+			`your hashes are still valid.\n` +
+			describe((n) => n >= 1 && n <= lines.length ? `line ${n} (${preview(lines[n - 1].trim())}):` : `line ${n}:`)
+		);
+	}
+
+	const width = hashWidth(lines, hashSettings(ctx).width);
+	const notes = results.filter((r) => r.skipped).map((r) => `${r.name} skipped: ${r.skipped}.`);
+	if (failed.length > 0) notes.push(describe((n) => n >= 1 && n <= lines.length && lines[n - 1].length > 0
+		? `${n}:${lineHash(lines[n - 1], width)}`
+		: `line ${n}:`));
+	// e.g. a formatter run as a validator
+	if ((await readTextFile(absPath).then((f) => f.raw, () => undefined)) !== written) {
+		notes.push(`A validator modified ${filePath} after the edit; re-read it with change_file: true before editing it again.`);
+	}
+	return notes.length > 0 ? "\n\nValidation: " + notes.join("\n") : "";
+}
+
+/**
+ * Remove the directories from `dir` up to `madeDir`, innermost first. Returns
+ * the first one that is no longer empty (and is kept, with those above it).
+ */
+async function removeMadeDirs(dir: string, madeDir: string): Promise<string | undefined> {
+	for (;; dir = path.dirname(dir)) {
+		try {
+			await rmdir(dir);
+		} catch (err) {
+			if ((err as NodeJS.ErrnoException).code === "ENOTEMPTY") return dir;
+			throw err;
+		}
+		if (dir === madeDir || dir === path.dirname(dir)) return undefined;
 	}
-	return `Inserted before ${hashStart} in ${filePath}.`;
 }
 
 /** Count +/- lines in the formatted diff to produce a compact summary. */
@@ -306,7 +1431,29 @@ function diffSummary(diff: string): string {
 	return parts.length > 0 ? parts.join(", ") : "";
 }
 
-// --- Diff formatting: converts `diff -u` output into pi's edit-tool format ---
+/** Record a journaled change in the session's edit log (editlog.ts) too. */
+function logJournaled(ctx: ExtensionContext, entry: JournalEntry, mode: string, anchors?: string[]): void {
+	logChange(ctx, { mode, anchors, summary: entry.summary, change: entry.id, files: entry.files });
+}
+
+/** Edit log mode of resolved edits: the edit's mode, "edits" for several, or "find_replace". */
+function logMode(resolved: ResolvedEdit[], find: string | undefined): string {
+	if (find != null) return "find_replace";
+	return resolved.length === 1 ? resolved[0].mode : "edits";
+}
+
+/** Edit log anchors of resolved edits: `12:a3..14:Xy` (just `12:a3` for inserts), or the symbol replaced. */
+function logAnchors(resolved: ResolvedEdit[], symbols: Map<number, { symbol: string }>): string[] {
+	// A whole-file find/replace has no anchors
+	return resolved.filter((e) => e.hashStart !== "").map((e) => {
+		const symbol = symbols.get(e.order)?.symbol;
+		if (symbol != null) return symbol;
+		const start = `${e.start}:${e.startHash}`;
+		return e.stopHash != null ? `${start}..${e.stop}:${e.stopHash}` : start;
+	});
+}
+
+// --- Diff formatting: folds line diff entries into pi's edit-tool format ---
 
 const CONTEXT = 4;
 
@@ -315,24 +1462,7 @@ interface DiffResult {
 	firstChangedLine?: number;
 }
 
-function formatUnifiedDiff(udiff: string): DiffResult {
-	const entries: { type: "r" | "a" | "c"; line: number; text: string }[] = [];
-	let ol = 0, nl = 0, inHunk = false;
-
-	for (const raw of udiff.split("\n")) {
-		if (raw.startsWith("@@")) {
-			const m = raw.match(/@@ -(\d+).* \+(\d+)/);
-			if (m) { ol = +m[1]; nl = +m[2]; inHunk = true; }
-			continue;
-		}
-		if (raw.startsWith("---") || raw.startsWith("+++") || !inHunk) continue;
-
-		const ch = raw[0], txt = raw.slice(1);
-		if (ch === "-")      entries.push({ type: "r", line: ol++, text: txt });
-		else if (ch === "+") entries.push({ type: "a", line: nl++, text: txt });
-		else                 { entries.push({ type: "c", line: ol, text: txt }); ol++; nl++; }
-	}
-
+function formatUnifiedDiff(entries: DiffEntry[]): DiffResult {
 	if (entries.length === 0) return { diff: "" };
 
 	let mx = 0;
@@ -348,13 +1478,17 @@ function formatUnifiedDiff(udiff: string): DiffResult {
 	}
 
 	const out: string[] = [];
-	let last = -1, firstChanged: number | undefined;
+	let last = -1, lastOld = -1, firstChanged: number | undefined;
 
 	for (let i = 0; i < entries.length; i++) {
 		if (entries[i].type === "c" && !near.has(i)) continue;
-		if (last >= 0 && i - last > 1) out.push(` ${" ".repeat(w)} ...`);
-
 		const e = entries[i];
+		// Skipped context, or the jump between two windows of windowEntries
+		if ((last >= 0 && i - last > 1) || (e.type !== "a" && lastOld >= 0 && e.line > lastOld + 1)) {
+			out.push(` ${" ".repeat(w)} ...`);
+		}
+		if (e.type !== "a") lastOld = e.line;
+
 		if (e.type === "r") {
 			if (firstChanged === undefined) firstChanged = e.line;
 			out.push(`-${pad(e.line)} ${e.text}`);
@@ -369,3 +1503,36 @@ function formatUnifiedDiff(udiff: string): DiffResult {
 
 	return { diff: out.join("\n"), firstChangedLine: firstChanged };
 }
+
+/**
+ * Diff `changes` (sorted, in the old file's coordinates) against a large file
+ * of which `fileLines` holds the lines around them (see lineArray). Changes
+ * whose CONTEXT windows touch are diffed together.
+ */
+function windowEntries(fileLines: string[], changes: SnapshotChange[]): DiffEntry[] {
+	const entries: DiffEntry[] = [];
+	let shift = 0;
+	for (let i = 0; i < changes.length;) {
+		let j = i;
+		while (j + 1 < changes.length && changes[j + 1].start - CONTEXT <= changes[j].start + changes[j].removed + CONTEXT) j++;
+		const group = changes.slice(i, j + 1);
+		const from = Math.max(1, changes[i].start - CONTEXT);
+		const to = Math.min(fileLines.length, changes[j].start + changes[j].removed - 1 + CONTEXT);
+
+		const after: string[] = [];
+		let n = from;
+		for (const c of group) {
+			while (n < c.start) after.push(fileLines[n++ - 1]);
+			after.push(...c.lines);
+			n = c.start + c.removed;
+		}
+		while (n <= to) after.push(fileLines[n++ - 1]);
+
+		for (const e of diffLines(fileLines.slice(from - 1, to), after)) {
+			entries.push({ ...e, line: e.line + from - 1 + (e.type === "a" ? shift : 0) });
+		}
+		for (const c of group) shift += c.lines.length - c.removed;
+		i = j + 1;
+	}
+	return entries;
+}
@@ -0,0 +1,462 @@
+/**
+ * Edit log — append-only, per-session record of every change the model made.
+ *
+ * Unlike the undo journal (journal.ts), which keeps full contents of recent
+ * changes and forgets undone ones, the log keeps each successful change_file
+ * call (and each undo or redo) as its mode, anchors and a git-style patch,
+ * in the order they happened. `/editlog` (undo.ts) exports it, or a range
+ * of it, as one patch that `git apply` accepts, or as JSONL for auditing.
+ * The patch has one section per file, merging its changes in the range, as
+ * git apply applies every section to the tree as it was before the patch.
+ * Paths are relative to the session's working directory, so the patch
+ * applies from there.
+ */
+
+import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
+import { statSync } from "node:fs";
+import * as path from "node:path";
+import { diffLines, type DiffEntry } from "./diff.js";
+import { sessionState } from "./session-state.js";
+
+// No-op extension export — see hashline.ts.
+export default function () {}
+
+export interface EditLogEntry {
+	/** Position in the session's log, starting at 1. */
+	seq: number;
+	timestamp: number;
+	/** What the change did, e.g. "replace", "find_replace", "insert_cell", "move" or "undo". */
+	mode: string;
+	/** Files the change touched, relative to the session's working directory. */
+	paths: string[];
+	/** Where the edits applied, as `<line>:<hash>` anchors (`a..b` for ranges); symbols and cells by name. */
+	anchors: string[];
+	/** e.g. "4 added, 1 removed" or "moved to b.ts", as in the journal. */
+	summary: string;
+	/** The journal entry (journal.ts) of the change, or of the change undone or redone. Unset if not journaled. */
+	change?: number;
+	/** Git-style patch of this change alone. */
+	patch: string;
+	/** The change to each file, which formatPatch merges across entries. */
+	files: PatchedFile[];
+}
+
+export interface LoggedFile {
+	absPath: string;
+	/** Content before the change; undefined if the change created the file. */
+	before?: string;
+	/** Content after the change; undefined if the change deleted the file. */
+	after?: string;
+	/**
+	 * For files too large to keep whole (see stream.ts): the diff around the
+	 * changes instead of before and after, with lines ending in `eol`.
+	 */
+	window?: { entries: DiffEntry[]; eol: string };
+	/** File mode (as stat reports it); needed if the file is gone by the time the change is logged. */
+	mode?: number;
+}
+
+export interface LoggedChange {
+	mode: string;
+	anchors?: string[];
+	summary: string;
+	change?: number;
+	files: LoggedFile[];
+}
+
+/** One file's part of a logged change. */
+export interface PatchedFile {
+	/** Relative to the session's working directory. */
+	path: string;
+	/** The change created or deleted the file. */
+	created: boolean;
+	deleted: boolean;
+	/** Set if the file was moved here from this path, unchanged. */
+	movedFrom?: string;
+	/** Git's mode of the file: "100644" or "100755". */
+	mode: string;
+	/** The changed lines with CONTEXT lines around them, each ending in its line ending. */
+	entries: DiffEntry[];
+}
+
+/** Context lines around each hunk, as git diff writes them. */
+const CONTEXT = 3;
+
+type Ctx = Pick<ExtensionContext, "cwd" | "sessionManager">;
+
+function log(ctx: Ctx): EditLogEntry[] {
+	return sessionState(ctx, "edit-log", (): EditLogEntry[] => []);
+}
+
+/** Last known mode of each file the log has seen, for files later deleted. */
+function modes(ctx: Ctx): Map<string, number> {
+	return sessionState(ctx, "edit-log-modes", () => new Map<string, number>());
+}
+
+/** Append a completed change to the log. */
+export function logChange(ctx: Ctx, change: LoggedChange): EditLogEntry {
+	const entries = log(ctx);
+	const paths = change.files.map((f) => patchPath(ctx.cwd, f.absPath));
+	const files = change.files.map((f, i) => patchedFile(ctx, paths[i], f));
+	// A file deleted and another created with its content: a move (or an undone one)
+	for (const [i, f] of change.files.entries()) {
+		if (f.before !== undefined || f.after === undefined || f.window) continue;
+		const j = change.files.findIndex((g) => g.after === undefined && g.before === f.after && !g.window);
+		if (j < 0) continue;
+		files[i] = { ...files[i], movedFrom: paths[j] };
+		// Moves keep the mode, and the source no longer has one to read
+		if (change.files[j].mode == null) files[j] = { ...files[j], mode: files[i].mode };
+	}
+	const entry: EditLogEntry = {
+		seq: entries.length + 1,
+		timestamp: Date.now(),
+		mode: change.mode,
+		paths,
+		anchors: change.anchors ?? [],
+		summary: change.summary,
+		...(change.change != null && { change: change.change }),
+		patch: mergeFiles([files]).map(sectionPatch).join(""),
+		files,
+	};
+	entries.push(entry);
+	return entry;
+}
+
+/** Every logged change, oldest first. */
+export function editLog(ctx: Ctx): EditLogEntry[] {
+	return log(ctx);
+}
+
+/**
+ * The entries a range selects: `N`, `N-M`, `N-` or `-M`, by seq; all of
+ * them without a range. Throws on a malformed range or one that selects nothing.
+ */
+export function selectEntries(ctx: Ctx, range: string | undefined): EditLogEntry[] {
+	const entries = log(ctx);
+	if (range == null) return entries;
+	const match = range.match(/^(\d*)(-?)(\d*)$/);
+	if (!match || (!match[1] && !match[3]) || (!match[2] && !match[1])) {
+		throw new Error(`Invalid range "${range}": expected N, N-M, N- or -M (entry numbers from /editlog).`);
+	}
+	const from = match[1] ? Number(match[1]) : 1;
+	const to = match[3] ? Number(match[3]) : match[2] ? Infinity : from;
+	const selected = entries.filter((e) => e.seq >= from && e.seq <= to);
+	if (selected.length === 0) {
+		throw new Error(`No edits in range ${range}: the log has ${entries.length === 0 ? "none" : `#1–#${entries.length}`}.`);
+	}
+	return selected;
+}
+
+/**
+ * One patch of `entries`, headed by a `#` comment line per entry, which git
+ * apply skips. Each file gets a single section, from its content before the
+ * first entry to its content after the last, under the path it ends at: git
+ * apply applies sections to the original tree, not one after another.
+ */
+export function formatPatch(entries: EditLogEntry[]): string {
+	const comments = entries.map((e) => `# ${describeLogEntry(e)}\n`).join("");
+	return comments + mergeFiles(entries.map((e) => e.files)).map(sectionPatch).join("");
+}
+
+/** One JSON object per line, with the patch as `diff` and an ISO timestamp. */
+export function formatJsonl(entries: EditLogEntry[]): string {
+	return entries.map((e) => JSON.stringify({
+		seq: e.seq,
+		timestamp: new Date(e.timestamp).toISOString(),
+		mode: e.mode,
+		paths: e.paths,
+		anchors: e.anchors,
+		summary: e.summary,
+		change: e.change,
+		diff: e.patch,
+	}) + "\n").join("");
+}
+
+/** One-line description: `#3 14:02:11 replace src/app.ts 12:a3..14:Xy (4 added, 1 removed)`. */
+export function describeLogEntry(entry: EditLogEntry): string {
+	const time = new Date(entry.timestamp).toTimeString().slice(0, 8);
+	const anchors = entry.anchors.length > 0 ? ` ${entry.anchors.join(", ")}` : "";
+	return `#${entry.seq} ${time} ${entry.mode} ${entry.paths.join(" → ")}${anchors} (${entry.summary || "no line changes"})`;
+}
+
+/** Path as a patch names it: relative to `cwd`, with forward slashes. */
+function patchPath(cwd: string, absPath: string): string {
+	return path.relative(cwd, absPath).split(path.sep).join("/");
+}
+
+/** The change to one file, with its mode: given, read from the file, or as last seen. */
+function patchedFile(ctx: Ctx, name: string, file: LoggedFile): PatchedFile {
+	let mode = file.mode;
+	if (mode == null && file.after !== undefined) {
+		try {
+			mode = statSync(file.absPath).mode;
+		} catch {}
+	}
+	mode ??= modes(ctx).get(file.absPath) ?? 0o644;
+	modes(ctx).set(file.absPath, mode);
+
+	// Lines keep their endings, so a change to the final newline is a change to the last line
+	const entries = file.window
+		? file.window.entries.map((e) => ({ ...e, text: e.text + file.window!.eol }))
+		: nearChanges(diffLines(splitLines(file.before), splitLines(file.after)));
+	return {
+		path: name,
+		created: !file.window && file.before === undefined,
+		deleted: !file.window && file.after === undefined,
+		mode: mode & 0o111 ? "100755" : "100644",
+		entries,
+	};
+}
+
+function splitLines(content: string | undefined): string[] {
+	return content ? content.split(/(?<=\n)/) : [];
+}
+
+/** The entries within CONTEXT lines of a change, the only ones a patch shows. */
+function nearChanges(entries: DiffEntry[]): DiffEntry[] {
+	const near = new Set<number>();
+	entries.forEach((e, i) => {
+		if (e.type === "c") return;
+		for (let j = Math.max(0, i - CONTEXT); j <= Math.min(entries.length - 1, i + CONTEXT); j++) near.add(j);
+	});
+	return entries.filter((_, i) => near.has(i));
+}
+
+/**
+ * A file's content as lines of its content before the first change
+ * (`orig`.., `count` of them) and lines added since, in order.
+ */
+type Piece = { orig: number; count: number } | { lines: string[] };
+
+/** One file across several changes: where it started and ended, and what changed in between. */
+interface Section {
+	/** Path before the first change and after the last. */
+	from: string;
+	to: string;
+	existed: boolean;
+	exists: boolean;
+	oldMode: string;
+	newMode: string;
+	pieces: Piece[];
+	/** Text of the original lines the changes showed. */
+	known: Map<number, string>;
+}
+
+/**
+ * Merge the changes to each file, in order, into one Section per file,
+ * following moves. The changes show only lines near each edit, so the
+ * merged content is tracked as Pieces of the original and of added lines.
+ */
+function mergeFiles(changes: PatchedFile[][]): Section[] {
+	const sections: Section[] = [];
+	const byPath = new Map<string, Section>();
+	for (const files of changes) {
+		// A move into a path the log hasn't seen renames the source's section
+		const moved = new Set<string>();
+		for (const f of files) {
+			const source = f.movedFrom != null ? byPath.get(f.movedFrom) : undefined;
+			if (f.movedFrom == null || byPath.has(f.path)) continue;
+			if (source) {
+				byPath.delete(f.movedFrom);
+				byPath.set(f.path, source);
+				source.to = f.path;
+				source.newMode = f.mode;
+			} else {
+				// First seen as moved: it existed, unchanged so far, under its old path
+				const section: Section = {
+					from: f.movedFrom, to: f.path, existed: true, exists: true, oldMode: f.mode, newMode: f.mode,
+					pieces: [{ orig: 1, count: Infinity }], known: new Map(),
+				};
+				sections.push(section);
+				byPath.set(f.path, section);
+			}
+			moved.add(f.movedFrom).add(f.path);
+		}
+
+		for (const f of files) {
+			if (moved.has(f.path)) continue;
+			let section = byPath.get(f.path);
+			if (!section) {
+				section = {
+					from: f.path, to: f.path, existed: !f.created, exists: !f.created, oldMode: f.mode, newMode: f.mode,
+					pieces: f.created ? [] : [{ orig: 1, count: Infinity }], known: new Map(),
+				};
+				sections.push(section);
+				byPath.set(f.path, section);
+			}
+			applyEntries(section, f.entries);
+			section.exists = !f.deleted;
+			section.newMode = f.mode;
+			if (f.deleted) section.pieces = [];
+		}
+	}
+	return sections.filter((s) => s.existed || s.exists);
+}
+
+/** Apply one change's diff entries to a section's pieces, noting the original lines they show. */
+function applyEntries(section: Section, entries: DiffEntry[]): void {
+	// Old and new line number of each entry; an added line's old number is the line it precedes
+	const changes: { start: number; removed: number; added: string[] }[] = [];
+	let shift = 0;
+	let last: DiffEntry | undefined;
+	for (const e of entries) {
+		const old = e.type === "a" ? e.line - shift : e.line;
+		if (e.type === "a") shift++;
+		else if (e.type === "r") shift--;
+		if (e.type !== "a") {
+			const orig = originalLine(section.pieces, old);
+			if (orig != null) section.known.set(orig, e.text);
+		}
+		if (e.type !== "c") {
+			// A change is a run of removed and added lines with nothing skipped
+			let change = changes[changes.length - 1];
+			if (!change || last?.type === "c" || old !== change.start + change.removed) {
+				change = { start: old, removed: 0, added: [] };
+				changes.push(change);
+			}
+			if (e.type === "a") change.added.push(e.text);
+			else change.removed++;
+		}
+		last = e;
+	}
+	// Bottom up, so the line numbers of the changes above still hold
+	for (const { start, removed, added } of changes.reverse()) {
+		const from = cut(section.pieces, start);
+		const to = cut(section.pieces, start + removed);
+		section.pieces.splice(from, to - from, ...(added.length > 0 ? [{ lines: added }] : []));
+	}
+}
+
+function pieceLength(piece: Piece): number {
+	return "lines" in piece ? piece.lines.length : piece.count;
+}
+
+/** The original line now at `line`; undefined if it was added. */
+function originalLine(pieces: Piece[], line: number): number | undefined {
+	let first = 1;
+	for (const piece of pieces) {
+		const length = pieceLength(piece);
+		if (line < first + length) return "lines" in piece ? undefined : piece.orig + line - first;
+		first += length;
+	}
+	return undefined;
+}
+
+/** Split the pieces so one starts at `line`; returns its index. */
+function cut(pieces: Piece[], line: number): number {
+	let first = 1;
+	for (let i = 0; i < pieces.length; i++) {
+		const piece = pieces[i];
+		const length = pieceLength(piece);
+		if (line < first + length) {
+			if (line === first) return i;
+			const k = line - first;
+			pieces.splice(i, 1, ...("lines" in piece
+				? [{ lines: piece.lines.slice(0, k) }, { lines: piece.lines.slice(k) }]
+				: [{ orig: piece.orig, count: k }, { orig: piece.orig + k, count: piece.count - k }]));
+			return i + 1;
+		}
+		first += length;
+	}
+	return pieces.length;
+}
+
+/**
+ * The section's diff entries from its original content to its final one:
+ * removed original lines, added lines, and the known original lines next to
+ * them as context. Lines in between are skipped.
+ */
+function sectionEntries(section: Section): DiffEntry[] {
+	const entries: DiffEntry[] = [];
+	let origNext = 1, newLine = 1;
+	let added: string[] = [];
+	const flush = (until: number) => {
+		for (; origNext < until; origNext++) {
+			const text = section.known.get(origNext);
+			if (text === undefined) break;
+			entries.push({ type: "r", line: origNext, text });
+		}
+		for (const text of added) entries.push({ type: "a", line: newLine++, text });
+		added = [];
+	};
+	section.pieces.forEach((piece, i) => {
+		if ("lines" in piece) return added.push(...piece.lines);
+		const changed = added.length > 0 || piece.orig > origNext;
+		flush(piece.orig);
+		// Context: up to CONTEXT known lines after the change before it and before the one after it
+		const end = piece.orig + piece.count;
+		const context = new Set<number>();
+		for (let n = piece.orig; changed && n < Math.min(end, piece.orig + CONTEXT) && section.known.has(n); n++) context.add(n);
+		for (let n = end - 1; i < section.pieces.length - 1 && n >= Math.max(piece.orig, end - CONTEXT) && section.known.has(n); n--) context.add(n);
+		for (const n of [...context].sort((a, b) => a - b)) {
+			entries.push({ type: "c", line: n, text: section.known.get(n)! });
+		}
+		newLine += piece.count;
+		origNext = end;
+	});
+	flush(Infinity);
+	return entries;
+}
+
+/** `diff --git` header and hunks of one section, as git diff writes them; empty if nothing changed. */
+function sectionPatch(section: Section): string {
+	const { from, to, existed, exists } = section;
+	const out = [`diff --git a/${existed ? from : to} b/${exists ? to : from}`];
+	if (!existed) out.push(`new file mode ${section.newMode}`);
+	else if (!exists) out.push(`deleted file mode ${section.oldMode}`);
+	else if (section.oldMode !== section.newMode) out.push(`old mode ${section.oldMode}`, `new mode ${section.newMode}`);
+	if (existed && exists && from !== to) out.push(`rename from ${from}`, `rename to ${to}`);
+
+	const hunks = formatHunks(sectionEntries(section));
+	if (out.length === 1 && hunks.length === 0) return "";
+	if (hunks.length > 0) {
+		out.push(existed ? `--- a/${from}` : "--- /dev/null", exists ? `+++ b/${to}` : "+++ /dev/null", ...hunks);
+	}
+	return out.join("\n") + "\n";
+}
+
+/**
+ * Fold diff entries (old line numbers for removed and context lines, new ones
+ * for added lines) into `@@` hunks with CONTEXT lines around each change.
+ * Entries may skip lines, as the windows of a large file do; a hunk never
+ * spans such a gap.
+ */
+function formatHunks(entries: DiffEntry[]): string[] {
+	// Old and new line number of each entry; an added line's old number is the line it precedes
+	let shift = 0;
+	const rows = entries.map((e) => {
+		const row = { ...e, old: e.type === "a" ? e.line - shift : e.line, new: e.type === "a" ? e.line : e.line + shift };
+		if (e.type === "a") shift++;
+		else if (e.type === "r") shift--;
+		return row;
+	});
+
+	const near = new Set<number>();
+	rows.forEach((row, i) => {
+		if (row.type === "c") return;
+		for (let j = Math.max(0, i - CONTEXT); j <= Math.min(rows.length - 1, i + CONTEXT); j++) near.add(j);
+	});
+
+	const hunks: (typeof rows)[] = [];
+	let last = -1;
+	for (let i = 0; i < rows.length; i++) {
+		if (!near.has(i)) continue;
+		const prev = rows[last];
+		if (last < 0 || i - last > 1 || rows[i].old > prev.old + (prev.type === "a" ? 0 : 1)) hunks.push([]);
+		hunks[hunks.length - 1].push(rows[i]);
+		last = i;
+	}
+
+	return hunks.map((hunk) => {
+		const oldCount = hunk.filter((r) => r.type !== "a").length;
+		const newCount = hunk.filter((r) => r.type !== "r").length;
+		// An empty side starts at the line before it, as in git diff
+		const oldStart = oldCount === 0 ? hunk[0].old - 1 : hunk[0].old;
+		const newStart = newCount === 0 ? hunk[0].new - 1 : hunk[0].new;
+		const lines = hunk.map((r) => {
+			const text = (r.type === "r" ? "-" : r.type === "a" ? "+" : " ") + r.text;
+			return text.endsWith("\n") ? text.slice(0, -1) : text + "\n\\ No newline at end of file";
+		});
+		return [`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`, ...lines].join("\n");
+	});
+}
@@ -0,0 +1,97 @@
+/**
+ * Glob — minimal path glob matching for config rules and multi-file reads.
+ *
+ * Supports `*` (any chars except `/`), `**` (any number of directories),
+ * `?` and `{a,b}` alternatives. In config rules, as in .gitignore, a pattern
+ * without a `/` matches the file name at any depth; reads match from the
+ * working directory, as a shell does. A trailing `/` matches everything under
+ * a directory.
+ */
+
+import { readdir } from "node:fs/promises";
+import * as path from "node:path";
+
+// No-op extension export — see hashline.ts.
+export default function () {}
+
+/** Directories expandGlob doesn't descend into, unless the pattern starts inside them. */
+const SKIPPED_DIRS = new Set([".git", "node_modules"]);
+
+/**
+ * Convert a glob to a RegExp matched against a `/`-separated relative path.
+ * Unless `rooted`, a pattern without a `/` matches the file name at any depth.
+ */
+export function globToRegExp(glob: string, rooted = false): RegExp {
+	let pattern = glob.trim().replace(/^\.\//, "");
+	if (pattern.endsWith("/")) pattern += "**";
+	if (!rooted && !pattern.includes("/")) pattern = "**/" + pattern;
+
+	let re = "";
+	for (let i = 0; i < pattern.length; i++) {
+		const ch = pattern[i];
+		if (ch === "*" && pattern[i + 1] === "*") {
+			// "**/" matches zero or more directories, a trailing "**" anything
+			if (pattern[i + 2] === "/") { re += "(?:.*/)?"; i += 2; }
+			else { re += ".*"; i += 1; }
+		} else if (ch === "*") {
+			re += "[^/]*";
+		} else if (ch === "?") {
+			re += "[^/]";
+		} else if (ch === "{") {
+			const end = pattern.indexOf("}", i);
+			if (end < 0) { re += "\\{"; continue; }
+			re += "(?:" + pattern.slice(i + 1, end).split(",").map(escape).join("|") + ")";
+			i = end;
+		} else {
+			re += escape(ch);
+		}
+	}
+	return new RegExp(`^${re}$`);
+}
+
+/** Whether `relPath` (relative to the project root, any separator) matches any of `globs`. */
+export function matchesGlob(relPath: string, globs: string | string[]): boolean {
+	const p = relPath.split("\\").join("/").replace(/^\.\//, "");
+	return (Array.isArray(globs) ? globs : [globs]).some((g) => globToRegExp(g).test(p));
+}
+
+export function isGlob(pattern: string): boolean {
+	return /[*?{]/.test(pattern);
+}
+
+/**
+ * Files matching `pattern` (relative to `cwd`, as in a shell, or absolute), as
+ * sorted absolute paths, skipping .git and node_modules. Stops after
+ * `limit + 1` matches, so callers can tell the list was cut.
+ */
+export async function expandGlob(cwd: string, pattern: string, limit: number): Promise<string[]> {
+	const absolute = path.isAbsolute(pattern);
+	// Walk from the directories before the first wildcard, only as deep as the pattern reaches
+	const parts = pattern.replace(/^\.\//, "").split("/");
+	const first = Math.max(0, parts.findIndex(isGlob));
+	const base = first > 0 ? path.resolve(cwd, parts.slice(0, first).join("/") || "/") : cwd;
+	const depth = pattern.includes("**") || pattern.endsWith("/") ? Infinity : parts.length - first - 1;
+	const re = globToRegExp(pattern, true);
+	const test = (abs: string) => re.test((absolute ? abs : path.relative(cwd, abs)).split(path.sep).join("/"));
+
+	const found: string[] = [];
+	const walk = async (dir: string, level: number): Promise<void> => {
+		const entries = await readdir(dir, { withFileTypes: true }).catch(() => []);
+		entries.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+		for (const entry of entries) {
+			if (found.length > limit) return;
+			const abs = path.join(dir, entry.name);
+			if (entry.isDirectory()) {
+				if (level < depth && !SKIPPED_DIRS.has(entry.name)) await walk(abs, level + 1);
+			} else if (test(abs)) {
+				found.push(abs);
+			}
+		}
+	};
+	await walk(base, 0);
+	return found;
+}
+
+function escape(s: string): string {
+	return s.replace(/[.+^${}()|[\]\\*?]/g, "\\$&");
+}
@@ -5,6 +5,15 @@
  * where hash is a 2-char base-62 digest of the line content. Empty lines
  * show `  |`. Duplicate hashes are shown — the `offset` parameter in
  * change_file controls which occurrence is targeted.
+ *
+ * In files where distinct lines collide at 2 chars, tags widen to 3 or 4
+ * chars (see hashWidth). Widths nest: the 2-char hash of a line is the last
+ * two chars of its 3- and 4-char hashes, so a hash of any supported width
+ * can be verified against the line it names.
+ *
+ * Alternatively, read can emit line-qualified anchors (`<line>:<hash>|`).
+ * change_file accepts `42:a3` wherever a bare hash is accepted; the line
+ * number pins the occurrence, so no offset is needed.
  */
 
 // No-op extension export — this module is a utility library imported by
@@ -15,26 +24,64 @@ export default function () {}
 
 const B62 = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz";
 
+/** Supported hash widths, narrowest first. */
+export const HASH_WIDTHS = [2, 3, 4];
+
 /**
- * Compute a 2-char base-62 hash of a line's content.
- * Uses FNV-1a 32-bit, then maps to 2 base-62 digits (3844 values).
+ * Compute a base-62 hash of a line's content, `width` chars wide (default 2).
+ * Uses FNV-1a 32-bit, then maps to `width` base-62 digits (3844 values at 2).
+ * Since 62^2 divides 62^3 and 62^4, narrower hashes are suffixes of wider ones.
  */
-export function lineHash(text: string): string {
+export function lineHash(text: string, width = 2): string {
 	let h = 0x811c9dc5; // FNV offset basis
 	for (let i = 0; i < text.length; i++) {
 		h ^= text.charCodeAt(i);
 		h = Math.imul(h, 0x01000193); // FNV prime
 	}
-	const n = (h >>> 0) % 3844; // 62 * 62
-	return B62[Math.floor(n / 62)] + B62[n % 62];
+	let n = (h >>> 0) % 62 ** width;
+	let out = "";
+	for (let i = 0; i < width; i++) {
+		out = B62[n % 62] + out;
+		n = Math.floor(n / 62);
+	}
+	return out;
+}
+
+/**
+ * Pick the narrowest hash width, no narrower than `min`, at which no two
+ * distinct non-empty lines collide. Identical lines always share a hash and
+ * don't count. Falls back to the widest width if collisions remain there too.
+ */
+export function hashWidth(lines: string[], min = HASH_WIDTHS[0]): number {
+	for (const width of HASH_WIDTHS.slice(0, -1)) {
+		if (width < min) continue;
+		const seen = new Map<string, string>();
+		let collision = false;
+		for (const line of lines) {
+			if (line.length === 0) continue;
+			const hash = lineHash(line, width);
+			const prev = seen.get(hash);
+			if (prev === undefined) seen.set(hash, line);
+			else if (prev !== line) { collision = true; break; }
+		}
+		if (!collision) return width;
+	}
+	return HASH_WIDTHS[HASH_WIDTHS.length - 1];
 }
 
 /**
  * Tag an array of lines with `<hash>|` prefixes.
  * Empty lines get `  |`. All non-empty lines get their hash shown.
+ * With `firstLine` (1-indexed number of lines[0]), tags are line-qualified
+ * anchors: `<line>:<hash>|`, and empty lines get `<line>:  |`.
+ * `width` is the hash width, normally hashWidth() of the whole file.
  */
-export function tagLines(lines: string[]): string[] {
-	return lines.map((line) => line.length === 0 ? "  |" : `${lineHash(line)}|${line}`);
+export function tagLines(lines: string[], firstLine?: number, width = 2): string[] {
+	const blank = " ".repeat(width);
+	return lines.map((line, i) => {
+		const tag = line.length === 0 ? blank : lineHash(line, width);
+		return firstLine != null ? `${firstLine + i}:${tag}|${line}` : `${tag}|${line}`;
+	});
 }
 
 /**
@@ -42,6 +89,7 @@ export function tagLines(lines: string[]): string[] {
  * Searches from `offset` (1-indexed, default 1). Returns the first match
  * at or after the offset. If no offset is given and multiple matches exist,
  * returns the first match but also sets `ambiguous` on the result.
+ * The hash may be of any supported width; lines are hashed at that width.
  */
 export function resolveHash(
 	fileLines: string[],
@@ -49,12 +97,13 @@ export function resolveHash(
 	offset?: number,
 ): { line: number; ambiguous: boolean } {
 	const start = offset != null ? offset - 1 : 0;
+	const width = checkWidth(hash);
 
 	let firstMatch: number | undefined;
 	let totalMatches = 0;
 
 	for (let i = start; i < fileLines.length; i++) {
-		if (fileLines[i].length > 0 && lineHash(fileLines[i]) === hash) {
+		if (fileLines[i].length > 0 && lineHash(fileLines[i], width) === hash) {
 			if (firstMatch === undefined) firstMatch = i + 1;
 			totalMatches++;
 		}
@@ -67,3 +116,56 @@ export function resolveHash(
 	const ambiguous = offset == null && totalMatches > 1;
 	return { line: firstMatch, ambiguous };
 }
+
+function checkWidth(hash: string): number {
+	if (!HASH_WIDTHS.includes(hash.length)) {
+		throw new Error(`"${hash}" is not a valid hash: expected ${HASH_WIDTHS.join(", ")} base-62 chars as shown by read.`);
+	}
+	return hash.length;
+}
+
+/** Lines a qualified anchor may have moved by (e.g. after earlier edits) and still resolve. */
+export const ANCHOR_DRIFT = 10;
+
+/** Split `"42:a3"` into line and hash; a bare `"a3"` has no line. */
+export function parseAnchor(anchor: string): { line?: number; hash: string } {
+	const m = anchor.match(/^\s*(\d+)\s*:\s*(\S+)\s*$/);
+	return m ? { line: +m[1], hash: m[2] } : { hash: anchor.trim() };
+}
+
+/**
+ * Resolve a bare hash or a `<line>:<hash>` anchor to a 1-indexed line number.
+ *
+ * Bare hashes go through resolveHash (first match at or after `offset`).
+ * Qualified anchors are accepted if that line still has that hash, or if the
+ * hash occurs exactly once within ANCHOR_DRIFT lines of it; `drift` is then
+ * set to the distance moved. Missing or ambiguous anchors throw.
+ */
+export function resolveAnchor(
+	fileLines: string[],
+	anchor: string,
+	offset?: number,
+): { line: number; hash: string; ambiguous: boolean; drift?: number } {
+	const { line, hash } = parseAnchor(anchor);
+	if (line == null) return { ...resolveHash(fileLines, hash, offset), hash };
+
+	const width = checkWidth(hash);
+	const matches = (i: number) => fileLines[i - 1].length > 0 && lineHash(fileLines[i - 1], width) === hash;
+	if (line >= 1 && line <= fileLines.length && matches(line)) return { line, hash, ambiguous: false };
+
+	const nearby: number[] = [];
+	for (let i = Math.max(1, line - ANCHOR_DRIFT); i <= Math.min(fileLines.length, line + ANCHOR_DRIFT); i++) {
+		if (matches(i)) nearby.push(i);
+	}
+	if (nearby.length === 1) return { line: nearby[0], hash, ambiguous: false, drift: nearby[0] - line };
+	if (nearby.length > 1) {
+		throw new Error(
+			`Anchor "${anchor}" no longer matches line ${line}, and hash "${hash}" occurs at lines ` +
+			`${nearby.join(", ")} nearby. Re-read before editing.`
+		);
+	}
+	throw new Error(
+		`Anchor "${anchor}" not found: line ${line} has a different hash and "${hash}" does not occur ` +
+		`within ${ANCHOR_DRIFT} lines of it. The file may have changed — re-read before editing.`
+	);
+}
@@ -0,0 +1,267 @@
+/**
+ * hh_grep — hashline-tagged grep tool.
+ *
+ * Overrides the built-in `grep` tool. Without `change_file`, the built-in
+ * grep runs unchanged. With `change_file: true`, the built-in grep is used
+ * to find matches (ripgrep, .gitignore, match limit), and the hits are then
+ * re-rendered from the files themselves, grouped per file, with every match
+ * and context line tagged `<line>:<hash>|` like read with anchors. The shown
+ * lines are recorded as read snapshots, so change_file accepts those anchors
+ * directly without a second read. In files too large to load whole (see
+ * stream.ts), only the lines shown are read. Notebooks are only named, as
+ * their anchors come from read's cell view (see notebook.ts). With
+ * policy.denyRead, lines of files read may not read are left out, with or
+ * without hashes, and the files named in a note (see policy.ts).
+ */
+
+import type { ExtensionAPI, GrepToolDetails } from "@mariozechner/pi-coding-agent";
+import {
+	createGrepToolDefinition,
+	DEFAULT_MAX_BYTES,
+	DEFAULT_MAX_LINES,
+	formatSize,
+	truncateHead,
+} from "@mariozechner/pi-coding-agent";
+import type { AgentToolResult } from "@mariozechner/pi-agent-core";
+import { Type } from "@sinclair/typebox";
+import { existsSync, statSync } from "node:fs";
+import { stat as fsStat } from "node:fs/promises";
+import * as path from "node:path";
+import { loadConfig } from "./config.js";
+import { hashWidth, tagLines } from "./hashline.js";
+import { isNotebook } from "./notebook.js";
+import { checkRead } from "./policy.js";
+import { hashSettings } from "./settings.js";
+import { contentDigest, recordRead, type SnapshotVersion } from "./snapshots.js";
+import { LARGE_FILE_BYTES, LARGE_FILE_WIDTH, largeFileDigest, lineArray, readBytes, scanLines, streamEncoding } from "./stream.js";
+import { readTextFile, SNIFF_BYTES } from "./textfile.js";
+
+const grepSchema = Type.Object({
+	pattern: Type.String({ description: "Search pattern (regex or literal string)" }),
+	path: Type.Optional(Type.String({ description: "Directory or file to search (default: current directory)" })),
+	glob: Type.Optional(Type.String({ description: "Filter files by glob pattern, e.g. '*.ts' or '**/*.spec.ts'" })),
+	ignoreCase: Type.Optional(Type.Boolean({ description: "Case-insensitive search (default: false)" })),
+	literal: Type.Optional(Type.Boolean({ description: "Treat pattern as literal string instead of regex (default: false)" })),
+	context: Type.Optional(Type.Number({ description: "Number of lines to show before and after each match (default: 0)" })),
+	limit: Type.Optional(Type.Number({ description: "Maximum number of matches to return (default: 100)" })),
+	change_file: Type.Optional(Type.Boolean({
+		description:
+			"If true, group matches per file and tag every line with a `<line>:<hash>|` anchor, as read does " +
+			"with change_file: true and anchors: true. The anchors can be passed to change_file directly. Default: false",
+	})),
+});
+
+interface Match {
+	absPath: string;
+	/** Path as the built-in grep displays it. */
+	displayPath: string;
+	line: number;
+}
+
+export default function (pi: ExtensionAPI) {
+	pi.registerTool({
+		name: "grep",
+		label: "grep",
+		description:
+			`Search file contents for a pattern. Returns matching lines with file paths and line numbers. Respects .gitignore. ` +
+			`Set change_file: true to get matches grouped per file with \`<line>:<hash>|\` anchors usable in change_file without reading first. ` +
+			`Output is truncated to 100 matches or ${DEFAULT_MAX_BYTES / 1024}KB (whichever is hit first).`,
+
+		parameters: grepSchema,
+
+		async execute(id, params, signal, onUpdate, ctx) {
+			const { change_file: withHashes, ...grepParams } = params;
+			const builtin = createGrepToolDefinition(ctx.cwd);
+			const searchPath = path.resolve(ctx.cwd, params.path || ".");
+			if (!withHashes) {
+				return withoutDenied(ctx.cwd, await builtin.execute(id, grepParams, signal, onUpdate, ctx), searchPath);
+			}
+
+			// Let the built-in grep find the matches; context is added below from the files themselves
+			const result = await builtin.execute(id, { ...grepParams, context: 0 }, signal, onUpdate, ctx);
+			const found = parseLines(result.content, searchPath).filter((m) => !m.context);
+			if (found.length === 0) return result;
+			const denied = await deniedFiles(ctx.cwd, found);
+			const matches = found.filter((m) => !denied.has(m.absPath));
+
+			const contextLines = params.context && params.context > 0 ? params.context : 0;
+			const minWidth = hashSettings(ctx).width;
+			const byFile = new Map<string, Match[]>();
+			for (const m of matches) {
+				const list = byFile.get(m.absPath) ?? [];
+				list.push(m);
+				byFile.set(m.absPath, list);
+			}
+
+			// Output lines, each with the file line it shows (if any) so only lines that survive
+			// truncation are recorded as shown
+			const out: { text: string; absPath?: string; line?: number; content?: string }[] = [];
+			const versions = new Map<string, SnapshotVersion>();
+			for (const [absPath, fileMatches] of byFile) {
+				if (signal?.aborted) throw new Error("Operation aborted");
+				if (isNotebook(absPath)) {
+					const n = fileMatches.length;
+					out.push({ text: `${fileMatches[0].displayPath}: (Jupyter notebook, ${n} ${n === 1 ? "match" : "matches"}; read it to edit its cells)` }, { text: "" });
+					continue;
+				}
+				let lines: string[];
+				// Lines of a UTF-8 file that aren't UTF-8 are shown without hashes: change_file won't edit them
+				let malformed = false;
+				try {
+					const stats = await fsStat(absPath);
+					if (stats.size > LARGE_FILE_BYTES) {
+						const encoding = streamEncoding(await readBytes(absPath, 0, SNIFF_BYTES));
+						if (!encoding) throw new Error("Not UTF-8 or Latin-1");
+						// Lines outside the shown ranges stay empty and are never rendered
+						const ranges = fileMatches.map((m) => ({ from: m.line - contextLines, to: m.line + contextLines }));
+						const scanned = await scanLines(absPath, ranges, signal, encoding);
+						lines = lineArray(scanned.lines);
+						malformed = scanned.malformed;
+						versions.set(absPath, { digest: largeFileDigest(stats), mtimeMs: stats.mtimeMs, width: LARGE_FILE_WIDTH });
+					} else {
+						const { file, raw } = await readTextFile(absPath);
+						lines = file.lines;
+						versions.set(absPath, { digest: contentDigest(raw), mtimeMs: stats.mtimeMs, width: hashWidth(lines, minWidth), lines });
+					}
+				} catch {
+					out.push({ text: `${fileMatches[0].displayPath}: (unable to read file)` }, { text: "" });
+					continue;
+				}
+
+				out.push({ text: fileMatches[0].displayPath + (malformed ? " (lines not valid UTF-8; no hashes, change_file won't edit them)" : "") });
+				const width = versions.get(absPath)!.width;
+				let lastShown = 0;
+				for (const range of mergeRanges(fileMatches.map((m) => m.line), contextLines, lines.length)) {
+					if (lastShown > 0 && range.start > lastShown + 1) out.push({ text: "--" });
+					const start = Math.max(range.start, lastShown + 1);
+					const shown = lines.slice(start - 1, range.end);
+					if (malformed) shown.forEach((text, i) => out.push({ text: `${start + i}|${text}` }));
+					else tagLines(shown, start, width).forEach((text, i) =>
+						out.push({ text, absPath, line: start + i, content: shown[i] }));
+					lastShown = range.end;
+				}
+				out.push({ text: "" });
+			}
+			if (out.length > 0 && out[out.length - 1].text === "") out.pop();
+
+			const truncation = truncateHead(out.map((o) => o.text).join("\n"));
+
+			// Remember which hashes the model saw, so change_file can verify its edits against them
+			for (const o of out.slice(0, truncation.outputLines)) {
+				if (o.absPath == null || o.line == null) continue;
+				recordRead(ctx, o.absPath, versions.get(o.absPath)!, o.line, [o.content!]);
+			}
+
+			const builtinDetails = result.details as GrepToolDetails | undefined;
+			const notices: string[] = [];
+			if (denied.size > 0) notices.push(deniedNote(denied));
+			const details: GrepToolDetails = {};
+			if (builtinDetails?.matchLimitReached) {
+				const limit = builtinDetails.matchLimitReached;
+				notices.push(`${limit} matches limit reached. Use limit=${limit * 2} for more, or refine pattern`);
+				details.matchLimitReached = limit;
+			}
+			if (truncation.truncated) {
+				notices.push(truncation.truncatedBy === "lines"
+					? `${DEFAULT_MAX_LINES} lines limit reached`
+					: `${formatSize(DEFAULT_MAX_BYTES)} limit reached`);
+				details.truncation = truncation;
+			}
+
+			let outputText = truncation.content || "No matches found";
+			if (notices.length > 0) outputText += `\n\n[${notices.join(". ")}]`;
+			return {
+				content: [{ type: "text" as const, text: outputText }],
+				details: Object.keys(details).length > 0 ? details : undefined,
+			};
+		},
+
+		// No custom renderCall/renderResult — uses the built-in grep renderer
+	});
+}
+
+/** A line of the built-in grep's output: a match (`path:line: text`) or context around one (`path-line- text`). */
+interface OutputLine extends Match {
+	context: boolean;
+	/** Index of the line in the output. */
+	index: number;
+}
+
+/**
+ * Recover the file and line each line of the built-in grep's output shows.
+ * Paths may contain `:N: ` or `-N- ` themselves, so each split point is tried
+ * from the left until it names an existing file. Other lines (notices) are
+ * left out.
+ */
+function parseLines(content: { type: string; text?: string }[], searchPath: string): OutputLine[] {
+	let isDirectory: boolean;
+	try {
+		isDirectory = statSync(searchPath).isDirectory();
+	} catch {
+		return [];
+	}
+
+	const text = content.map((c) => (c.type === "text" ? c.text ?? "" : "")).join("\n");
+	const lines: OutputLine[] = [];
+	text.split("\n").forEach((raw, index) => {
+		const sep = /:(\d+): |-(\d+)- /g;
+		let m: RegExpExecArray | null;
+		while ((m = sep.exec(raw))) {
+			const displayPath = raw.slice(0, m.index);
+			const absPath = isDirectory ? path.resolve(searchPath, displayPath) : searchPath;
+			if (isDirectory ? existsSync(absPath) : displayPath === path.basename(searchPath)) {
+				lines.push({ absPath, displayPath, line: +(m[1] ?? m[2]), context: m[1] == null, index });
+				break;
+			}
+		}
+	});
+	return lines;
+}
+
+/** Files among `matches` that policy.denyRead keeps from being read, with their display paths. */
+async function deniedFiles(cwd: string, matches: Match[]): Promise<Map<string, string>> {
+	const denied = new Map<string, string>();
+	if (!loadConfig(cwd).policy.denyRead) return denied;
+	const checked = new Set<string>();
+	for (const { absPath, displayPath } of matches) {
+		if (checked.has(absPath)) continue;
+		checked.add(absPath);
+		await checkRead(cwd, absPath, displayPath).catch(() => denied.set(absPath, displayPath));
+	}
+	return denied;
+}
+
+function deniedNote(denied: Map<string, string>): string {
+	const n = denied.size;
+	return `Matches in ${n} ${n === 1 ? "file" : "files"} not shown, as policy denies reading ${n === 1 ? "it" : "them"}: ` +
+		[...denied.values()].join(", ");
+}
+
+/** The built-in grep's result without the lines of files policy.denyRead keeps from being read. */
+async function withoutDenied(
+	cwd: string, result: AgentToolResult<GrepToolDetails | undefined>, searchPath: string,
+): Promise<AgentToolResult<GrepToolDetails | undefined>> {
+	if (!loadConfig(cwd).policy.denyRead) return result;
+	const parsed = parseLines(result.content, searchPath);
+	const denied = await deniedFiles(cwd, parsed);
+	if (denied.size === 0) return result;
+
+	const dropped = new Set(parsed.filter((l) => denied.has(l.absPath)).map((l) => l.index));
+	const text = result.content.map((c) => (c.type === "text" ? c.text : "")).join("\n");
+	const kept = text.split("\n").filter((_, i) => !dropped.has(i)).join("\n").trim();
+	const shown = parsed.some((l) => !dropped.has(l.index)) ? kept : `No matches found${kept ? `\n\n${kept}` : ""}`;
+	return { ...result, content: [{ type: "text", text: `${shown}\n\n[${deniedNote(denied)}]` }] };
+}
+
+/** Merge match lines widened by `context` into sorted, non-overlapping 1-indexed ranges. */
+function mergeRanges(lines: number[], context: number, total: number): { start: number; end: number }[] {
+	const ranges: { start: number; end: number }[] = [];
+	for (const line of [...lines].sort((a, b) => a - b)) {
+		const start = Math.max(1, line - context);
+		const end = Math.min(total, line + context);
+		const last = ranges[ranges.length - 1];
+		if (last && start <= last.end + 1) last.end = Math.max(last.end, end);
+		else ranges.push({ start, end });
+	}
+	return ranges;
+}
@@ -4,11 +4,38 @@
  * Overrides the built-in `read` tool. For text files, every line is prefixed
  * with `<hash>|` where hash is a 2-char base-62 digest of the line content.
  * Empty lines show `  |`. Duplicate hashes are shown for all occurrences.
+ * Files where distinct lines collide at 2 chars get 3- or 4-char hashes.
+ *
+ * With mode: "outline", only the structural lines (imports, declarations,
+ * members; see outline.ts) are shown, each as a `<line>:<hash>|` anchor, with
+ * the collapsed ranges between them marked `… <from>–<to>`.
+ *
+ * With symbol (e.g. "MyClass.method"), only that declaration is shown, also
+ * as anchors.
+ *
+ * With paths (files or globs), several files are read in one call under
+ * `==> path <==` headers, sharing one output budget.
+ *
+ * With since_last_read, the file is diffed against the version the model last
+ * saw (see snapshots.ts) and only the changed hunks are shown, as anchors, with
+ * the earlier hashes that no longer hold listed.
+ *
+ * Jupyter notebooks are shown as numbered cells (see notebook.ts), with
+ * offset/limit counting cells and anchors numbered within each cell.
+ *
+ * Files over LARGE_FILE_BYTES are streamed (see stream.ts): only the requested
+ * window is decoded and hashed, always at the widest width, and modes that
+ * need the whole file are refused.
+ *
+ * Text that isn't UTF-8 is decoded as UTF-16 or Latin-1 (see textfile.ts),
+ * with a note saying so. Files that look binary are shown as a hex dump and
+ * directories as a listing of their entries, with offset/limit counting bytes
+ * and entries respectively.
  *
  * Images pass through unchanged.
  */
 
-import type { ExtensionAPI, ReadToolDetails } from "@mariozechner/pi-coding-agent";
+import type { ExtensionAPI, ExtensionContext, ReadToolDetails } from "@mariozechner/pi-coding-agent";
 import {
 	DEFAULT_MAX_BYTES,
 	DEFAULT_MAX_LINES,
@@ -17,17 +44,64 @@ import {
 } from "@mariozechner/pi-coding-agent";
 import { Type } from "@sinclair/typebox";
 import { constants } from "node:fs";
-import { access as fsAccess, readFile as fsReadFile } from "node:fs/promises";
+import {
+	access as fsAccess, lstat as fsLstat, readdir as fsReaddir, readFile as fsReadFile, readlink as fsReadlink, stat as fsStat,
+} from "node:fs/promises";
 import * as path from "node:path";
-import { tagLines } from "./hashline.js";
+import { diffLines } from "./diff.js";
+import { expandGlob, isGlob } from "./glob.js";
+import { hashWidth, tagLines } from "./hashline.js";
+import { isNotebook, notebookLines, parseNotebook, renderNotebook, type Notebook } from "./notebook.js";
+import { findSymbol, outlineLines } from "./outline.js";
+import { checkRead } from "./policy.js";
+import { hashSettings } from "./settings.js";
+import { contentDigest, getSnapshot, recordEdit, recordRead, type ReadSnapshot, type SnapshotChange } from "./snapshots.js";
+import { LARGE_FILE_BYTES, LARGE_FILE_WIDTH, largeFileDigest, readBytes, scanLines, streamEncoding, wholeFileError, type StreamEncoding } from "./stream.js";
+import { decodeText, detectEncoding, ENCODING_NAMES, encodeText, looksBinary, parseText, SNIFF_BYTES, type TextEncoding } from "./textfile.js";
 
 const IMAGE_EXTS = new Set([".jpg", ".jpeg", ".png", ".gif", ".webp", ".svg", ".bmp", ".ico"]);
+/** Unchanged lines shown around each hunk in since_last_read output. */
+const CHANGE_CONTEXT = 2;
+/** Stale hashes listed individually before summarizing the rest. */
+const MAX_STALE_LISTED = 20;
+/** Files read by one call with paths. */
+const MAX_FILES = 50;
+/** Bytes of a binary file dumped without a limit. */
+const HEX_BYTES = 4096;
+/** Bytes per hex dump row. */
+const HEX_ROW = 16;
 
 const readSchema = Type.Object({
-	path: Type.String({ description: "Path to the file to read (relative or absolute)" }),
-	offset: Type.Optional(Type.Number({ description: "Line number to start reading from (1-indexed)" })),
-	limit: Type.Optional(Type.Number({ description: "Maximum number of lines to read" })),
-	change_file: Type.Optional(Type.Boolean({ description: "If true, tag lines with content hashes for use with change_file. Default: false" })),
+	path: Type.Optional(Type.String({ description: "Path to the file to read (relative or absolute)" })),
+	paths: Type.Optional(Type.Array(Type.String(), {
+		description:
+			"Read several files at once instead of path: file paths or globs relative to the working directory " +
+			"(e.g. \"src/tools/*.ts\", or \"**/*.test.ts\" at any depth). " +
+			"Each file is shown under a `==> path <==` header; the output limit is shared across them. " +
+			"Works with change_file and anchors.",
+	})),
+	offset: Type.Optional(Type.Number({ description: "Line number to start reading from (1-indexed). For binary files, the byte offset (0-indexed); for directories, the entry" })),
+	limit: Type.Optional(Type.Number({ description: "Maximum number of lines to read (bytes for binary files, entries for directories)" })),
+	change_file: Type.Optional(Type.Boolean({ description: "If true, tag lines with content hashes for use with change_file. Default: false, unless the user configured otherwise" })),
+	anchors: Type.Optional(Type.Boolean({ description: "With change_file: true, tag lines with line-qualified anchors `<line>:<hash>|` instead of `<hash>|`. Pass e.g. \"42:a3\" to change_file; no offset needed. Default: false" })),
+	// Plain string enum rather than a union of literals, which some providers reject
+	mode: Type.Optional(Type.Unsafe<"full" | "outline">({
+		type: "string",
+		enum: ["full", "outline"],
+		description:
+			"\"outline\" shows only structural lines (imports, classes, functions, methods, exports) as `<line>:<hash>|` anchors, " +
+			"with collapsed ranges marked `… <from>–<to>`; read those with offset/limit. Anchors work with change_file. Default: \"full\"",
+	})),
+	symbol: Type.Optional(Type.String({
+		description:
+			"Read only this declaration, e.g. \"MyClass.method\" or \"formatUnifiedDiff\", as `<line>:<hash>|` anchors. " +
+			"Use instead of offset/limit. change_file accepts the same symbol to replace or delete the declaration.",
+	})),
+	since_last_read: Type.Optional(Type.Boolean({
+		description:
+			"Show only what changed since your last read of this file with change_file: true (e.g. after a formatter ran), " +
+			"as `<line>:<hash>|` anchors in hunks, and list the earlier hashes that are no longer valid. Default: false",
+	})),
 });
 
 function resolvePath(filePath: string, cwd: string): string {
@@ -40,21 +114,52 @@ export default function (pi: ExtensionAPI) {
 		name: "read",
 		label: "Read",
 		description:
-			`Read the contents of a file. Set change_file: true to tag lines with 2-char content hashes: \`<hash>|<content>\`. ` +
+			`Read the contents of a file. Set change_file: true to tag lines with 2-char content hashes: \`<hash>|<content>\` ` +
+			`(3-4 chars in files where distinct lines would collide). ` +
 			`Use these hashes in change_file to reference lines for verified edits. ` +
+			`With anchors: true, tags are \`<line>:<hash>|\` and change_file accepts the \`<line>:<hash>\` anchor directly. ` +
+			`Use mode: "outline" on large source files to see their structure with anchors, then read the ranges you need, ` +
+			`or read a single declaration with symbol (e.g. "MyClass.method"). ` +
+			`After a file changed on disk, read it with since_last_read: true to get fresh hashes for just the changed lines. ` +
+			`To open several small files, pass paths (files or globs) instead of path. ` +
+			`Jupyter notebooks (.ipynb) are shown as numbered cells with their outputs summarized; offset/limit count cells, ` +
+			`and anchors are numbered within each cell (pass cell with them to change_file). ` +
 			`Supports images (jpg, png, gif, webp). ` +
-			`Output is truncated to ${DEFAULT_MAX_LINES} lines or ${DEFAULT_MAX_BYTES / 1024}KB. Use offset/limit for large files.`,
+			`Directories are listed with each entry's type and size. Binary files are shown as a hex dump, with offset/limit in bytes. ` +
+			`Text in UTF-16 (with a BOM) or Latin-1 is decoded and noted as such. ` +
+			`Output is truncated to ${DEFAULT_MAX_LINES} lines or ${DEFAULT_MAX_BYTES / 1024}KB. Use offset/limit for large files; ` +
+			`files over ${LARGE_FILE_BYTES / 1024 / 1024}MB are streamed, with 4-char hashes, and can't be outlined or read by symbol.`,
 
 		parameters: readSchema,
 
 		async execute(_id, params, signal, _onUpdate, ctx) {
-			const { path: filePath, offset, limit, change_file: withHashes } = params;
+			const { path: pathParam, paths, offset, limit, anchors, mode, symbol, since_last_read } = params;
+			const { readChangeFile, width: minWidth } = hashSettings(ctx);
+			const withHashes = params.change_file ?? readChangeFile;
+			if (paths != null) {
+				if (pathParam != null) throw new Error("Pass either path or paths, not both.");
+				if (offset != null || limit != null || mode === "outline" || symbol != null || since_last_read) {
+					throw new Error("paths reads whole files; read a single path to use offset, limit, mode, symbol or since_last_read.");
+				}
+				return readMany(ctx, paths, withHashes, !!anchors, signal);
+			}
+			if (pathParam == null) throw new Error("Provide path (or paths).");
+			const filePath = pathParam;
 			const absolutePath = resolvePath(filePath, ctx.cwd);
 
+			await checkRead(ctx.cwd, absolutePath, filePath);
 			await fsAccess(absolutePath, constants.R_OK);
 
 			if (signal?.aborted) throw new Error("Operation aborted");
 
+			// Modes that need the file as lines of text
+			const textMode = since_last_read ? "since_last_read" : symbol != null ? "symbol" : mode === "outline" ? "mode: \"outline\"" : undefined;
+			const stats = await fsStat(absolutePath);
+			if (stats.isDirectory()) {
+				if (textMode) throw new Error(`${filePath} is a directory; ${textMode} is not available for it.`);
+				return readDirectory(absolutePath, filePath, offset, limit);
+			}
+
 			// Image files: read as binary, return as image content
 			const ext = path.extname(absolutePath).toLowerCase();
 			if (IMAGE_EXTS.has(ext)) {
@@ -76,19 +181,172 @@ export default function (pi: ExtensionAPI) {
 				};
 			}
 
+			// --- Jupyter notebook: cells rather than JSON, unless it doesn't parse ---
+			if (isNotebook(absolutePath)) {
+				const raw = await fsReadFile(absolutePath, "utf-8");
+				let nb: Notebook | undefined;
+				try {
+					nb = parseNotebook(raw, filePath);
+				} catch {
+					// Shown as text below, so the model can see what is wrong with it
+				}
+				if (nb) {
+					if (textMode) throw new Error(`${filePath} is a Jupyter notebook, read by cell; ${textMode} is not available for it.`);
+					return readNotebook(ctx, absolutePath, filePath, raw, nb, offset, limit, withHashes);
+				}
+			}
+
+			// --- Binary file: hex dump of the requested bytes ---
+			const sample = await readBytes(absolutePath, 0, SNIFF_BYTES);
+			if (looksBinary(sample)) {
+				if (textMode) throw new Error(`${filePath} looks like a binary file; ${textMode} is not available for it.`);
+				return readHexDump(absolutePath, filePath, stats.size, offset, limit, withHashes);
+			}
+
+			// --- Large text file: stream just the requested window ---
+			if (stats.size > LARGE_FILE_BYTES) {
+				if (textMode) {
+					throw wholeFileError(filePath, stats.size, textMode, "Read it in windows with offset/limit, or find lines with grep.");
+				}
+				// Windows are decoded in the encoding of the file's start: UTF-8 or Latin-1
+				const encoding = streamEncoding(sample);
+				if (!encoding) {
+					throw wholeFileError(filePath, stats.size, `decoding ${ENCODING_NAMES[detectEncoding(sample)!]}`, "Convert it to UTF-8 to read it in windows.");
+				}
+				return readWindow(ctx, absolutePath, filePath, stats, encoding, offset, limit, withHashes, !!anchors, signal);
+			}
+
 			// --- Text file ---
 			const buffer = await fsReadFile(absolutePath);
-			const textContent = buffer.toString("utf-8");
-			const allLines = textContent.split("\n");
+			// Not binary, as the sample showed
+			const encoding = detectEncoding(buffer)!;
+			const textContent = decodeText(buffer, encoding);
+			const encodingNote = describeEncoding(encoding, buffer, textContent);
+			// Lines without endings or BOM, so hashes match what change_file resolves
+			const allLines = parseText(textContent).lines;
 			const totalFileLines = allLines.length;
 
 			const startLine = offset ? Math.max(0, offset - 1) : 0;
 			const startLineDisplay = startLine + 1;
 
-			if (startLine >= allLines.length) {
+			if (startLine > 0 && startLine >= allLines.length) {
 				throw new Error(`Offset ${offset} is beyond end of file (${allLines.length} lines total)`);
 			}
 
+			if (since_last_read) {
+				if (offset != null || limit != null || mode === "outline" || symbol != null) {
+					throw new Error("since_last_read selects the lines to read; don't combine it with offset, limit, mode: \"outline\" or symbol.");
+				}
+				const snap = getSnapshot(ctx, absolutePath);
+				if (!snap) {
+					throw new Error(
+						`${filePath} has not been read with change_file: true in this session, so there is no earlier version ` +
+						`to compare with. Read it with change_file: true.`
+					);
+				}
+				const digest = contentDigest(textContent);
+				if (snap.digest === digest) {
+					return {
+						content: [{ type: "text" as const, text: `[${filePath} has not changed since your last read. Your hashes are still valid.]` }],
+						details: undefined,
+					};
+				}
+
+				if (!snap.lines) {
+					throw new Error(
+						`Your last read of ${filePath} was of a version too large to keep, so there is nothing to compare with. ` +
+						`Read it with change_file: true.`
+					);
+				}
+
+				const width = hashWidth(allLines, minWidth);
+				const { output, sources, changes, stale } = renderChanges(snap, snap.lines, allLines, width);
+				const truncation = truncateHead(output.join("\n"));
+
+				// Carry the hashes of unchanged lines over to this version, then add the lines shown now
+				const { mtimeMs } = await fsStat(absolutePath);
+				const version = { digest, mtimeMs, width, lines: allLines };
+				recordEdit(ctx, absolutePath, version, changes, { markWritten: false });
+				for (const n of sources.slice(0, truncation.outputLines)) {
+					if (n != null) recordRead(ctx, absolutePath, version, n, [allLines[n - 1]]);
+				}
+
+				const notes: string[] = [];
+				if (changes.length === 0) {
+					notes.push(`[${filePath} changed on disk since your last read, but no line did (e.g. line endings or a BOM changed). Your hashes are still valid.]`);
+				} else {
+					const hunks = sources.filter((n) => n == null).length;
+					notes.push(`[${filePath} changed since your last read: ${hunks} ${hunks === 1 ? "hunk" : "hunks"} of the current version, as \`@@ -old +new @@\`. Hashes of other lines are unchanged.]`);
+				}
+				if (truncation.truncated) {
+					notes.push(`[Changes truncated (${truncation.truncatedBy === "lines" ? `${DEFAULT_MAX_LINES} lines` : formatSize(DEFAULT_MAX_BYTES)} limit). Read the rest with offset/limit.]`);
+				}
+				if (encodingNote) notes.push(encodingNote);
+				if (width !== snap.width) {
+					notes.push(`[Hashes in this file are now ${width} chars wide (were ${snap.width}), so every earlier hash is invalid. Re-read what you need with change_file: true.]`);
+				} else if (stale.length > 0) {
+					const listed = stale.slice(0, MAX_STALE_LISTED).join(", ");
+					const more = stale.length > MAX_STALE_LISTED ? ` and ${stale.length - MAX_STALE_LISTED} more` : "";
+					notes.push(`[No longer valid: ${listed}${more}.]`);
+				}
+
+				const body = changes.length > 0 ? truncation.content + "\n\n" : "";
+				return {
+					content: [{ type: "text" as const, text: body + notes.join("\n") }],
+					details: truncation.truncated ? { truncation } as ReadToolDetails : undefined,
+				};
+			}
+
+			if (symbol != null) {
+				if (offset != null || limit != null || mode === "outline") {
+					throw new Error("symbol selects the lines to read; don't combine it with offset, limit or mode: \"outline\".");
+				}
+				const extent = await findSymbol(absolutePath, allLines, symbol);
+				const selected = allLines.slice(extent.start - 1, extent.end);
+				const width = hashWidth(allLines, minWidth);
+				const truncation = truncateHead(tagLines(selected, extent.start, width).join("\n"));
+
+				if (!truncation.firstLineExceedsLimit) {
+					const { mtimeMs } = await fsStat(absolutePath);
+					recordRead(ctx, absolutePath, { digest: contentDigest(textContent), mtimeMs, width, lines: allLines },
+						extent.start, selected.slice(0, truncation.outputLines));
+				}
+
+				const shownEnd = extent.start + truncation.outputLines - 1;
+				let outputText = truncation.content + (truncation.truncated
+					? `\n\n[${extent.name}: showing lines ${extent.start}-${shownEnd} of ${extent.start}-${extent.end}. Use offset=${shownEnd + 1} to continue.]`
+					: `\n\n[${extent.name}: lines ${extent.start}-${extent.end} of ${totalFileLines}.]`);
+				if (encodingNote) outputText += "\n" + encodingNote;
+				return {
+					content: [{ type: "text" as const, text: outputText }],
+					details: truncation.truncated ? { truncation } as ReadToolDetails : undefined,
+				};
+			}
+
+			if (mode === "outline") {
+				const endLine = limit !== undefined ? Math.min(startLine + limit, allLines.length) : allLines.length;
+				const shown = (await outlineLines(absolutePath, allLines)).filter((n) => n > startLine && n <= endLine);
+				const width = hashWidth(allLines, minWidth);
+				const { output, sources } = renderOutline(allLines, shown, startLine + 1, endLine, width);
+				const truncation = truncateHead(output.join("\n"));
+
+				const { mtimeMs } = await fsStat(absolutePath);
+				const version = { digest: contentDigest(textContent), mtimeMs, width, lines: allLines };
+				for (const n of sources.slice(0, truncation.outputLines)) {
+					if (n != null) recordRead(ctx, absolutePath, version, n, [allLines[n - 1]]);
+				}
+
+				let outputText = truncation.content;
+				outputText += truncation.truncated
+					? `\n\n[Outline truncated (${truncation.truncatedBy === "lines" ? `${DEFAULT_MAX_LINES} lines` : formatSize(DEFAULT_MAX_BYTES)} limit). Use offset/limit to outline the rest.]`
+					: `\n\n[Outline: ${sources.filter((n) => n != null).length} of ${endLine - startLine} lines shown. Read collapsed ranges with offset/limit.]`;
+				if (encodingNote) outputText += "\n" + encodingNote;
+				return {
+					content: [{ type: "text" as const, text: outputText }],
+					details: truncation.truncated ? { truncation } as ReadToolDetails : undefined,
+				};
+			}
+
 			let selectedLines: string[];
 			let userLimitedLines: number | undefined;
 			if (limit !== undefined) {
@@ -100,12 +358,21 @@ export default function (pi: ExtensionAPI) {
 			}
 
 			// Tag lines with hashline prefixes only when change_file is true
-			const output = withHashes ? tagLines(selectedLines) : selectedLines;
+			// Widen tags for the whole file if distinct lines collide at 2 chars
+			const width = withHashes ? hashWidth(allLines, minWidth) : 2;
+			const output = withHashes ? tagLines(selectedLines, anchors ? startLineDisplay : undefined, width) : selectedLines;
 			const selectedContent = output.join("\n");
 
 			// Apply truncation
 			const truncation = truncateHead(selectedContent);
 
+			// Remember which hashes the model saw, so change_file can verify its edits against them
+			if (withHashes && !truncation.firstLineExceedsLimit) {
+				const { mtimeMs } = await fsStat(absolutePath);
+				recordRead(ctx, absolutePath, { digest: contentDigest(textContent), mtimeMs, width, lines: allLines },
+					startLineDisplay, selectedLines.slice(0, truncation.outputLines));
+			}
+
 			let outputText: string;
 			let details: ReadToolDetails | undefined;
 
@@ -131,6 +398,7 @@ export default function (pi: ExtensionAPI) {
 			} else {
 				outputText = truncation.content;
 			}
+			if (encodingNote) outputText += (outputText.endsWith("]") ? "\n" : "\n\n") + encodingNote;
 
 			return {
 				content: [{ type: "text" as const, text: outputText }],
@@ -141,3 +409,413 @@ export default function (pi: ExtensionAPI) {
 		// No custom renderCall/renderResult — uses the built-in read renderer
 	});
 }
+
+/**
+ * Read every file named by `patterns` (paths or globs, expanded in order and
+ * deduplicated) under a `==> path <==` header. The files share one output
+ * budget; a file cut short gets a hint to continue with offset, and files past
+ * the budget are listed at the end. Files that can't be read get their error
+ * in place of their content.
+ */
+async function readMany(
+	ctx: ExtensionContext, patterns: string[], withHashes: boolean, anchors: boolean, signal?: AbortSignal,
+) {
+	if (patterns.length === 0) throw new Error("paths must contain at least one path or glob.");
+	const files: string[] = [];
+	const notes: string[] = [];
+	for (const pattern of patterns) {
+		const found = isGlob(pattern)
+			? await expandGlob(ctx.cwd, pattern, MAX_FILES)
+			: [resolvePath(pattern, ctx.cwd)];
+		if (found.length === 0) notes.push(`[No files match ${pattern}.]`);
+		for (const abs of found) if (!files.includes(abs)) files.push(abs);
+	}
+	if (files.length > MAX_FILES) {
+		notes.push(`[More than ${MAX_FILES} files match; showing the first ${MAX_FILES}. Use narrower globs.]`);
+		files.length = MAX_FILES;
+	}
+
+	const display = (abs: string) => {
+		const rel = path.relative(ctx.cwd, abs);
+		return rel.startsWith("..") || path.isAbsolute(rel) ? abs : rel;
+	};
+	const sections: string[] = [];
+	const skipped: string[] = [];
+	let linesLeft = DEFAULT_MAX_LINES;
+	let bytesLeft = DEFAULT_MAX_BYTES;
+	const minWidth = hashSettings(ctx).width;
+
+	for (const absolutePath of files) {
+		if (signal?.aborted) throw new Error("Operation aborted");
+		const filePath = display(absolutePath);
+		const header = `==> ${filePath} <==`;
+		// Header, blank separator and a continuation hint are always kept in budget
+		if (linesLeft < 4 || bytesLeft < Buffer.byteLength(header) + 200) {
+			skipped.push(filePath);
+			continue;
+		}
+
+		let body: string;
+		try {
+			await checkRead(ctx.cwd, absolutePath, filePath);
+			const stats = await fsStat(absolutePath);
+			const { size } = stats;
+			if (stats.isDirectory()) {
+				body = `[Directory; read it with path "${filePath}" to list it.]`;
+			} else if (IMAGE_EXTS.has(path.extname(absolutePath).toLowerCase())) {
+				body = `[Image file; read it with path to view it.]`;
+			} else if (isNotebook(absolutePath)) {
+				body = `[Jupyter notebook; read it with path "${filePath}" to see its cells.]`;
+			} else if (size > LARGE_FILE_BYTES) {
+				body = `[${formatSize(size)} file; read it with path "${filePath}" and offset/limit.]`;
+			} else if (looksBinary(await readBytes(absolutePath, 0, SNIFF_BYTES))) {
+				body = `[Binary file (${formatSize(size)}); read it with path "${filePath}" to see a hex dump.]`;
+			} else {
+				const buffer = await fsReadFile(absolutePath);
+				const encoding = detectEncoding(buffer)!;
+				const textContent = decodeText(buffer, encoding);
+				const encodingNote = describeEncoding(encoding, buffer, textContent);
+				const allLines = parseText(textContent).lines;
+				const width = withHashes ? hashWidth(allLines, minWidth) : 2;
+				const output = withHashes ? tagLines(allLines, anchors ? 1 : undefined, width) : allLines;
+				const truncation = truncateHead(output.join("\n"), {
+					maxLines: linesLeft - 3,
+					maxBytes: bytesLeft - Buffer.byteLength(header) - 200,
+				});
+
+				if (withHashes && !truncation.firstLineExceedsLimit) {
+					const { mtimeMs } = await fsStat(absolutePath);
+					recordRead(ctx, absolutePath, { digest: contentDigest(textContent), mtimeMs, width, lines: allLines },
+						1, allLines.slice(0, truncation.outputLines));
+				}
+
+				body = truncation.firstLineExceedsLimit
+					? `[Line 1 exceeds the remaining output limit. Read it with path "${filePath}".]`
+					: truncation.content;
+				if (truncation.truncated && !truncation.firstLineExceedsLimit) {
+					body += `\n\n[Showing lines 1-${truncation.outputLines} of ${allLines.length}. ` +
+						`Read with path "${filePath}" and offset=${truncation.outputLines + 1} to continue.]`;
+				}
+				if (encodingNote) body += (body.endsWith("]") ? "\n" : "\n\n") + encodingNote;
+			}
+		} catch (err) {
+			body = `[Error: ${err instanceof Error ? err.message : String(err)}]`;
+		}
+
+		const section = `${header}\n${body}`;
+		sections.push(section);
+		linesLeft -= section.split("\n").length + 1;
+		bytesLeft -= Buffer.byteLength(section) + 2;
+	}
+
+	if (skipped.length > 0) {
+		notes.push(`[Output limit reached; not shown: ${skipped.join(", ")}. Read them in another call.]`);
+	}
+	const text = [...sections, ...notes].join("\n\n");
+	return { content: [{ type: "text" as const, text }], details: undefined };
+}
+
+/**
+ * Tag the outline lines of `from`..`to` (1-indexed, inclusive) as anchors and
+ * mark the gaps between them; a single-line gap is shown rather than marked.
+ * `sources` gives the file line behind each output line (undefined for markers).
+ */
+function renderOutline(
+	lines: string[], shown: number[], from: number, to: number, width: number,
+): { output: string[]; sources: (number | undefined)[] } {
+	const output: string[] = [];
+	const sources: (number | undefined)[] = [];
+	const show = (n: number) => {
+		output.push(tagLines([lines[n - 1]], n, width)[0]);
+		sources.push(n);
+	};
+	const gap = (a: number, b: number) => {
+		if (a > b) return;
+		if (a === b) return show(a);
+		output.push(`… ${a}–${b}`);
+		sources.push(undefined);
+	};
+
+	let next = from;
+	for (const n of shown) {
+		gap(next, n - 1);
+		show(n);
+		next = n + 1;
+	}
+	gap(next, to);
+	return { output, sources };
+}
+
+/**
+ * The note for text that isn't UTF-8, saying how it was decoded and, if its
+ * bytes don't survive that (malformed UTF-16), that change_file won't edit it.
+ */
+function describeEncoding(encoding: TextEncoding, bytes: Buffer, text: string): string | undefined {
+	if (encoding === "utf-8") return undefined;
+	const name = ENCODING_NAMES[encoding];
+	if (!encodeText(text, encoding).equals(bytes)) {
+		return `[Decoded as ${name}, but some bytes are not valid ${name}; change_file can't write it back without loss and won't edit it.]`;
+	}
+	return encoding === "latin1"
+		? `[Not valid UTF-8; decoded as Latin-1. change_file keeps it Latin-1.]`
+		: `[Decoded as ${name}. change_file keeps it ${name}.]`;
+}
+
+/**
+ * List entries `offset`.. of a directory, at most `limit` of them, sorted by
+ * name: each with its type and, for files, its size; symlinks with their
+ * target. Only the entries listed are stat'ed.
+ */
+async function readDirectory(absolutePath: string, filePath: string, offset: number | undefined, limit: number | undefined) {
+	const entries = (await fsReaddir(absolutePath, { withFileTypes: true }))
+		.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+	const count = entries.length;
+	const from = offset ? Math.max(1, offset) : 1;
+	if (from > 1 && from > count) throw new Error(`Offset ${offset} is beyond the last entry (${count} entries total)`);
+	const to = Math.min(count, from + (limit !== undefined ? Math.max(0, limit) : DEFAULT_MAX_LINES) - 1);
+
+	const output: string[] = [];
+	for (const entry of entries.slice(from - 1, to)) {
+		const entryPath = path.join(absolutePath, entry.name);
+		let type = "other", size = "", name = entry.name;
+		if (entry.isDirectory()) {
+			type = "dir";
+			name += "/";
+		} else if (entry.isSymbolicLink()) {
+			type = "symlink";
+			name += ` -> ${await fsReadlink(entryPath).catch(() => "?")}`;
+		} else if (entry.isFile()) {
+			type = "file";
+			size = await fsLstat(entryPath).then((st) => formatSize(st.size), () => "?");
+		}
+		output.push(`${type.padEnd(7)} ${size.padStart(8)}  ${name}`);
+	}
+	const truncation = truncateHead(output.join("\n"));
+
+	const dirs = entries.filter((e) => e.isDirectory()).length;
+	const files = entries.filter((e) => e.isFile()).length;
+	const links = entries.filter((e) => e.isSymbolicLink()).length;
+	const other = count - dirs - files - links;
+	const kinds = [`${dirs} ${dirs === 1 ? "directory" : "directories"}`, `${files} ${files === 1 ? "file" : "files"}`];
+	if (links > 0) kinds.push(`${links} ${links === 1 ? "symlink" : "symlinks"}`);
+	if (other > 0) kinds.push(`${other} other`);
+	const notes = count === 0
+		? [`[${filePath} is an empty directory.]`]
+		: [`[Directory ${filePath}: ${count} ${count === 1 ? "entry" : "entries"} (${kinds.join(", ")}).]`];
+	const end = from + truncation.outputLines - 1;
+	if (end < count) notes.push(`[Showing entries ${from}-${end} of ${count}. Use offset=${end + 1} to continue.]`);
+
+	const body = truncation.content ? truncation.content + "\n\n" : "";
+	return {
+		content: [{ type: "text" as const, text: body + notes.join("\n") }],
+		details: truncation.truncated ? { truncation } as ReadToolDetails : undefined,
+	};
+}
+
+/**
+ * Dump bytes `offset`.. (0-indexed) of a binary file, at most `limit` of them,
+ * in rows of HEX_ROW as `hexdump -C` does: the offset, the bytes in hex and
+ * their printable ASCII. Only the bytes dumped are read.
+ */
+async function readHexDump(
+	absolutePath: string, filePath: string, size: number,
+	offset: number | undefined, limit: number | undefined, withHashes: boolean,
+) {
+	const start = offset ? Math.max(0, offset) : 0;
+	if (start > 0 && start >= size) throw new Error(`Offset ${offset} is beyond end of file (${size} bytes)`);
+	// No more rows than the output could show
+	const length = Math.min(limit !== undefined ? Math.max(0, limit) : HEX_BYTES, DEFAULT_MAX_LINES * HEX_ROW);
+	const bytes = await readBytes(absolutePath, start, length);
+
+	const digits = Math.max(8, size.toString(16).length);
+	const output: string[] = [];
+	for (let pos = 0; pos < bytes.length; pos += HEX_ROW) {
+		const row = bytes.subarray(pos, pos + HEX_ROW);
+		const hex = [...row].map((b) => b.toString(16).padStart(2, "0"));
+		const ascii = [...row].map((b) => (b >= 0x20 && b < 0x7f ? String.fromCharCode(b) : ".")).join("");
+		output.push(
+			`${(start + pos).toString(16).padStart(digits, "0")}  ` +
+			`${hex.slice(0, 8).join(" ").padEnd(23)}  ${hex.slice(8).join(" ").padEnd(23)}  |${ascii}|`
+		);
+	}
+	const truncation = truncateHead(output.join("\n"));
+
+	const end = start + Math.min(bytes.length, truncation.outputLines * HEX_ROW);
+	const notes = [`[${filePath} looks binary (${formatSize(size)}), so it is shown as hex; offset and limit count bytes.]`];
+	if (end < size) notes.push(`[Showing bytes ${start}-${end - 1} of ${size}. Use offset=${end} to continue.]`);
+	if (withHashes) notes.push(`[No hashes: change_file only edits text files.]`);
+
+	const body = truncation.content ? truncation.content + "\n\n" : "";
+	return {
+		content: [{ type: "text" as const, text: body + notes.join("\n") }],
+		details: truncation.truncated ? { truncation } as ReadToolDetails : undefined,
+	};
+}
+
+/**
+ * Read cells `offset`.. of a notebook, at most `limit` of them, as rendered by
+ * renderNotebook. With change_file, source lines are tagged as anchors within
+ * their cell and recorded under their notebook line (see notebookLines).
+ */
+async function readNotebook(
+	ctx: ExtensionContext, absolutePath: string, filePath: string, raw: string, nb: Notebook,
+	offset: number | undefined, limit: number | undefined, withHashes: boolean,
+) {
+	const count = nb.json.cells.length;
+	const from = offset ? Math.max(1, offset) : 1;
+	if (from > 1 && from > count) throw new Error(`Offset ${offset} is beyond the last cell (${count} cells total)`);
+	const to = limit !== undefined ? Math.min(count, from + limit - 1) : count;
+
+	const { lines } = notebookLines(nb);
+	const width = withHashes ? hashWidth(lines, hashSettings(ctx).width) : 2;
+	const { output, sources, cells } = renderNotebook(nb, from, to, width, withHashes);
+	const truncation = truncateHead(output.join("\n"));
+
+	if (withHashes && !truncation.firstLineExceedsLimit) {
+		const { mtimeMs } = await fsStat(absolutePath);
+		const version = { digest: contentDigest(raw), mtimeMs, width, lines };
+		for (const n of sources.slice(0, truncation.outputLines)) {
+			if (n != null) recordRead(ctx, absolutePath, version, n, [lines[n - 1]]);
+		}
+	}
+
+	const notes: string[] = [];
+	if (count === 0) notes.push(`[${filePath} has no cells.]`);
+	if (truncation.truncated) {
+		// The last cell shown may be cut short; continue from it then
+		const last = cells[Math.max(0, truncation.outputLines - 1)];
+		const partial = cells[truncation.outputLines] === last;
+		notes.push(`[Showing cells ${from}-${last}${partial ? ` (cell ${last} in part)` : ""} of ${count}. Use offset=${partial ? last : last + 1} to continue.]`);
+	} else if (to < count) {
+		notes.push(`[${count - to} more cells. Use offset=${to + 1} to continue.]`);
+	}
+	if (withHashes && count > 0) notes.push(`[Anchors are numbered within each cell: pass cell with them to change_file.]`);
+
+	const body = truncation.content ? truncation.content + (notes.length > 0 ? "\n\n" : "") : "";
+	return {
+		content: [{ type: "text" as const, text: body + notes.join("\n") }],
+		details: truncation.truncated ? { truncation } as ReadToolDetails : undefined,
+	};
+}
+
+/**
+ * Read lines `offset`.. of a file too large to load whole (see stream.ts), at
+ * most `limit` of them and no more than fit the output. The scan stops one
+ * line past the window, which is enough to tell whether more lines follow.
+ * A window of a UTF-8 file with lines that aren't UTF-8 is shown without
+ * hashes, since change_file won't edit them.
+ */
+async function readWindow(
+	ctx: ExtensionContext, absolutePath: string, filePath: string, stats: { size: number; mtimeMs: number },
+	encoding: StreamEncoding, offset: number | undefined, limit: number | undefined, withHashes: boolean, anchors: boolean,
+	signal?: AbortSignal,
+) {
+	const start = offset ? Math.max(1, offset) : 1;
+	const count = limit !== undefined ? Math.max(0, limit) : DEFAULT_MAX_LINES;
+	const { lines, total, malformed } = await scanLines(absolutePath, [{ from: start, to: start + count }], signal, encoding);
+	const notes: string[] = [];
+	if (malformed) {
+		notes.push(`[Some of these lines are not valid UTF-8 and show "\uFFFD" for the bytes that aren't; change_file won't edit them${withHashes ? ", so they have no hashes" : ""}.]`);
+		withHashes = false;
+	} else if (encoding === "latin1") {
+		notes.push(`[Not valid UTF-8; decoded as Latin-1. change_file keeps it Latin-1.]`);
+	}
+	const selected: string[] = [];
+	for (let n = start; n < start + count && lines.has(n); n++) selected.push(lines.get(n)!);
+	if (start > 1 && !lines.has(start)) throw new Error(`Offset ${offset} is beyond end of file (${total} lines total)`);
+
+	const width = withHashes ? LARGE_FILE_WIDTH : 2;
+	const output = withHashes ? tagLines(selected, anchors ? start : undefined, width) : selected;
+	const truncation = truncateHead(output.join("\n"));
+
+	if (withHashes && !truncation.firstLineExceedsLimit) {
+		recordRead(ctx, absolutePath, { digest: largeFileDigest(stats), mtimeMs: stats.mtimeMs, width },
+			start, selected.slice(0, truncation.outputLines));
+	}
+
+	const end = start + truncation.outputLines - 1;
+	const of = total != null ? `${total}` : `a ${formatSize(stats.size)} file`;
+	let outputText = truncation.content;
+	if (truncation.firstLineExceedsLimit) {
+		const firstLineSize = formatSize(Buffer.byteLength(selected[0], "utf-8"));
+		outputText = `[Line ${start} is ${firstLineSize}, exceeds ${formatSize(DEFAULT_MAX_BYTES)} limit. Use bash: sed -n '${start}p' ${filePath} | head -c ${DEFAULT_MAX_BYTES}]`;
+	} else if (truncation.truncated) {
+		const limitNote = truncation.truncatedBy === "lines" ? "" : ` (${formatSize(DEFAULT_MAX_BYTES)} limit)`;
+		outputText += `\n\n[Showing lines ${start}-${end} of ${of}${limitNote}. Use offset=${end + 1} to continue.]`;
+	} else if (lines.has(start + count)) {
+		const more = total != null ? `${total - end} more lines` : `More lines`;
+		outputText += `\n\n[${more} in file (${formatSize(stats.size)}). Use offset=${end + 1} to continue.]`;
+	}
+	if (notes.length > 0) outputText += (outputText.endsWith("]") ? "\n" : "\n\n") + notes.join("\n");
+	return {
+		content: [{ type: "text" as const, text: outputText }],
+		details: truncation.truncated ? { truncation } as ReadToolDetails : undefined,
+	};
+}
+
+/**
+ * Diff the version in `snap` (whose lines are `previous`) against `lines` and render each changed region of
+ * `lines`, with CHANGE_CONTEXT lines around it, under a `@@ -old +new @@`
+ * header. Returns the output with the file line behind each output line
+ * (undefined for headers), the changes in the old version's coordinates, and
+ * the `<line>:<hash>` anchors the model was shown for lines that were removed
+ * or replaced.
+ */
+function renderChanges(
+	snap: ReadSnapshot, previous: string[], lines: string[], width: number,
+): { output: string[]; sources: (number | undefined)[]; changes: SnapshotChange[]; stale: string[] } {
+	const changes: SnapshotChange[] = [];
+	const stale: string[] = [];
+	let oldNext = 1;
+	let current: SnapshotChange | undefined;
+	for (const entry of diffLines(previous, lines)) {
+		if (entry.type === "c") {
+			current = undefined;
+			oldNext++;
+			continue;
+		}
+		if (!current) {
+			current = { start: oldNext, removed: 0, lines: [] };
+			changes.push(current);
+		}
+		if (entry.type === "a") {
+			current.lines.push(entry.text);
+			continue;
+		}
+		current.removed++;
+		oldNext++;
+		const shown = snap.shown.get(entry.line);
+		if (shown) stale.push(`${entry.line}:${shown.hash.slice(-snap.width)}`);
+	}
+
+	// Windows of the new file around each change, merged where they touch
+	const windows: { from: number; to: number; oldFrom: number; oldTo: number }[] = [];
+	let shift = 0;
+	for (const c of changes) {
+		const newStart = c.start + shift;
+		const from = Math.max(1, newStart - CHANGE_CONTEXT);
+		const oldFrom = from - shift;
+		shift += c.lines.length - c.removed;
+		const to = Math.min(lines.length, newStart + c.lines.length - 1 + CHANGE_CONTEXT);
+		const oldTo = to - shift;
+		const last = windows[windows.length - 1];
+		if (last && from <= last.to + 1) {
+			last.to = to;
+			last.oldTo = oldTo;
+		} else {
+			windows.push({ from, to, oldFrom, oldTo });
+		}
+	}
+
+	const output: string[] = [];
+	const sources: (number | undefined)[] = [];
+	for (const w of windows) {
+		output.push(`@@ -${w.oldFrom},${w.oldTo - w.oldFrom + 1} +${w.from},${w.to - w.from + 1} @@`);
+		sources.push(undefined);
+		for (let n = w.from; n <= w.to; n++) {
+			output.push(tagLines([lines[n - 1]], n, width)[0]);
+			sources.push(n);
+		}
+	}
+	return { output, sources, changes, stale };
+}
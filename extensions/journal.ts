@@ -0,0 +1,145 @@
+/**
+ * Journal — per-session undo/redo history of change_file writes.
+ *
+ * Every successful change_file call records the full content of each file it
+ * touched, before and after: one file for edits, two for a move. Undo restores
+ * the "before" content (deleting a file the call created, recreating one it
+ * deleted), redo writes "after" again. Both refuse to touch a file whose
+ * current content is not what the journal expects, so edits made since by the
+ * user, a formatter or another tool are never overwritten. Contents are
+ * written back in the encoding they were read in (see textfile.ts), and a file
+that is recreated gets the mode it had when it was moved or deleted.
+ */
+
+import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
+import { chmod, stat, unlink } from "node:fs/promises";
+import { sessionState } from "./session-state.js";
+import { readTextFile, writeFileAtomic, type TextEncoding } from "./textfile.js";
+
+// No-op extension export — see hashline.ts.
+export default function () {}
+
+export interface FileChange {
+	absPath: string;
+	/** Path as the model passed it, for display. */
+	displayPath: string;
+	/** Content before the change; undefined if the change created the file. */
+	before?: string;
+	/** Content after the change; undefined if the change deleted the file. */
+	after?: string;
+	/** Encodings of before and after (see textfile.ts); UTF-8 if unset. */
+	encoding?: { before?: TextEncoding; after?: TextEncoding };
+	/** Mode (as stat reports it) of a moved, copied or deleted file, for recreating it. */
+	mode?: number;
+}
+
+export interface JournalEntry {
+	/** Sequence number within the session, starting at 1. */
+	id: number;
+	/** Every file the change touched, e.g. the source and destination of a move. */
+	files: FileChange[];
+	/** e.g. "4 added, 1 removed" (see diffSummary in edit-file.ts), "created", "moved to b.ts". */
+	summary: string;
+	timestamp: number;
+}
+
+interface Journal {
+	done: JournalEntry[];
+	undone: JournalEntry[];
+	nextId: number;
+}
+
+/** Oldest entries are dropped beyond this, to bound the memory held by full-file contents. */
+const MAX_ENTRIES = 100;
+
+type Ctx = Pick<ExtensionContext, "sessionManager">;
+
+function journal(ctx: Ctx): Journal {
+	return sessionState(ctx, "journal", (): Journal => ({ done: [], undone: [], nextId: 1 }));
+}
+
+/** Record a completed write. A new change discards everything that could be redone. */
+export function recordChange(ctx: Ctx, change: Omit<JournalEntry, "id" | "timestamp">): JournalEntry {
+	const j = journal(ctx);
+	const entry: JournalEntry = { ...change, id: j.nextId++, timestamp: Date.now() };
+	j.done.push(entry);
+	if (j.done.length > MAX_ENTRIES) j.done.splice(0, j.done.length - MAX_ENTRIES);
+	j.undone = [];
+	return entry;
+}
+
+/** Changes that can be undone, newest first. */
+export function recentChanges(ctx: Ctx): JournalEntry[] {
+	return [...journal(ctx).done].reverse();
+}
+
+/** Changes that can be redone, most recently undone first. */
+export function undoneChanges(ctx: Ctx): JournalEntry[] {
+	return [...journal(ctx).undone].reverse();
+}
+
+/**
+ * Undo the newest change (touching `absPath`, if given). Throws if there is
+ * none or one of its files has changed since.
+ */
+export async function undoChange(ctx: Ctx, absPath?: string): Promise<JournalEntry> {
+	const j = journal(ctx);
+	const entry = findLast(j.done, absPath, "undo");
+	for (const file of entry.files) await expectContent(entry, file, file.after, "undo");
+	for (const file of entry.files) await restore(file, file.before, file.encoding?.before);
+	j.done.splice(j.done.indexOf(entry), 1);
+	j.undone.push(entry);
+	return entry;
+}
+
+/**
+ * Redo the most recently undone change (touching `absPath`, if given). Throws
+ * if there is none or one of its files has changed since.
+ */
+export async function redoChange(ctx: Ctx, absPath?: string): Promise<JournalEntry> {
+	const j = journal(ctx);
+	const entry = findLast(j.undone, absPath, "redo");
+	for (const file of entry.files) await expectContent(entry, file, file.before, "redo");
+	for (const file of entry.files) await restore(file, file.after, file.encoding?.after);
+	j.undone.splice(j.undone.indexOf(entry), 1);
+	j.done.push(entry);
+	return entry;
+}
+
+/** One-line description: `#3 14:02:11 src/app.ts (4 added, 1 removed)`. */
+export function describeChange(entry: JournalEntry): string {
+	const time = new Date(entry.timestamp).toTimeString().slice(0, 8);
+	return `#${entry.id} ${time} ${entry.files[0].displayPath} (${entry.summary || "no line changes"})`;
+}
+
+function findLast(entries: JournalEntry[], absPath: string | undefined, action: "undo" | "redo"): JournalEntry {
+	for (let i = entries.length - 1; i >= 0; i--) {
+		if (absPath == null || entries[i].files.some((f) => f.absPath === absPath)) return entries[i];
+	}
+	throw new Error(`Nothing to ${action}${absPath != null ? ` for ${absPath}` : ""} in this session.`);
+}
+
+/**
+ * Write `content` to the file, or delete it if `content` is undefined. A file
+ * that didn't exist gets the change's mode; one that did keeps its own.
+ */
+async function restore(file: FileChange, content: string | undefined, encoding: TextEncoding | undefined): Promise<void> {
+	if (content === undefined) return unlink(file.absPath);
+	const existed = await stat(file.absPath).then(() => true, () => false);
+	await writeFileAtomic(file.absPath, content, encoding);
+	if (!existed && file.mode != null) await chmod(file.absPath, file.mode & 0o7777);
+}
+
+/** Refuse to undo/redo unless the file holds exactly `expected` (undefined = does not exist). */
+async function expectContent(
+	entry: JournalEntry, file: FileChange, expected: string | undefined, action: "undo" | "redo",
+): Promise<void> {
+	// null: it exists, but no longer as text
+	const current = await readTextFile(file.absPath).then((f) => f.raw, (err) => (err?.code === "ENOENT" ? undefined : null));
+	if (current === expected) return;
+	throw new Error(
+		`Cannot ${action} change #${entry.id} to ${file.displayPath}: the file ` +
+		(current === undefined ? "no longer exists" : expected === undefined ? "exists again" : "has changed since") +
+		`. ${action === "undo" ? "Undo" : "Redo"} would overwrite those changes; restore them by hand or use git.`
+	);
+}
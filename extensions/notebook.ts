@@ -0,0 +1,174 @@
+/**
+ * Notebook — Jupyter notebooks (.ipynb) as cells of source lines.
+ *
+ * read shows a notebook as its numbered cells, each with its type, its source
+ * lines (tagged `<line>:<hash>|` with lines numbered within the cell) and a
+ * one-line summary of its outputs. change_file edits a cell's source by those
+ * anchors, or inserts and deletes cells, and writes the notebook back as
+ * nbformat JSON with its metadata and the other cells' outputs untouched.
+ *
+ * For read snapshots (snapshots.ts), a notebook's lines are the source lines
+ * of all its cells in order: line `n` of cell `c` is line `starts[c - 1] + n - 1`
+ * (see notebookLines), so edits shift the hashes of later cells like those of
+ * later lines in a text file.
+ */
+
+import { randomBytes } from "node:crypto";
+import * as path from "node:path";
+import { tagLines } from "./hashline.js";
+import { preview } from "./relocate.js";
+
+// No-op extension export — see hashline.ts.
+export default function () {}
+
+export const CELL_TYPES = ["code", "markdown", "raw"] as const;
+export type CellType = typeof CELL_TYPES[number];
+
+interface NotebookOutput {
+	output_type: string;
+	/** stream: "stdout" or "stderr". */
+	name?: string;
+	text?: string | string[];
+	/** execute_result / display_data: content by MIME type. */
+	data?: Record<string, unknown>;
+	ename?: string;
+	evalue?: string;
+}
+
+export interface NotebookCell {
+	cell_type: string;
+	/** A string, or lines each ending in "\n" but the last. */
+	source: string | string[];
+	execution_count?: number | null;
+	outputs?: NotebookOutput[];
+	[key: string]: unknown;
+}
+
+export interface Notebook {
+	/** The parsed JSON, edited in place. Keys keep their order when written back. */
+	json: { cells: NotebookCell[]; nbformat?: number; nbformat_minor?: number; [key: string]: unknown };
+	/** Indentation and line ending of the file as read, kept when writing it back. */
+	indent: string;
+	eol: string;
+}
+
+export function isNotebook(filePath: string): boolean {
+	return path.extname(filePath).toLowerCase() === ".ipynb";
+}
+
+/** Parse notebook JSON. Throws if it isn't valid JSON with a `cells` array. */
+export function parseNotebook(raw: string, filePath: string): Notebook {
+	let json: unknown;
+	try {
+		json = JSON.parse(raw.replace(/^\uFEFF/, ""));
+	} catch (err) {
+		throw new Error(`${filePath} is not a valid notebook: ${err instanceof Error ? err.message : String(err)}`);
+	}
+	if (json == null || typeof json !== "object" || !("cells" in json) || !Array.isArray(json.cells)) {
+		throw new Error(`${filePath} is not a valid notebook: it has no "cells" array.`);
+	}
+	const indent = raw.match(/^\uFEFF?[{[]\r?\n([ \t]+)/)?.[1] ?? " ";
+	return { json: json as Notebook["json"], indent, eol: raw.includes("\r\n") ? "\r\n" : "\n" };
+}
+
+/** Inverse of parseNotebook, with a final newline as Jupyter writes it. */
+export function formatNotebook(nb: Notebook): string {
+	const text = JSON.stringify(nb.json, null, nb.indent) + "\n";
+	return nb.eol === "\n" ? text : text.replace(/\n/g, nb.eol);
+}
+
+/** A cell's source as lines. An empty cell has none. */
+export function cellSource(cell: NotebookCell): string[] {
+	const text = Array.isArray(cell.source) ? cell.source.join("") : cell.source ?? "";
+	return text === "" ? [] : text.split("\n");
+}
+
+/** Set a cell's source, in the form (string or lines) it had. */
+export function setCellSource(cell: NotebookCell, lines: string[]): void {
+	const text = lines.join("\n");
+	cell.source = typeof cell.source === "string" ? text : text === "" ? [] : text.split(/(?<=\n)/);
+}
+
+/**
+ * Drop a code cell's outputs and execution count, which no longer match its
+ * source. Returns whether it had outputs.
+ */
+export function clearOutputs(cell: NotebookCell): boolean {
+	if (cell.cell_type !== "code") return false;
+	const had = (cell.outputs?.length ?? 0) > 0;
+	cell.outputs = [];
+	cell.execution_count = null;
+	return had;
+}
+
+/** A new cell, with an id if the notebook's nbformat (4.5+) has them. Keys are in Jupyter's order. */
+export function newCell(nb: Notebook, type: CellType, lines: string[]): NotebookCell {
+	const { nbformat = 4, nbformat_minor = 0 } = nb.json;
+	const id = nbformat > 4 || nbformat_minor >= 5 ? randomBytes(4).toString("hex") : undefined;
+	const cell: NotebookCell = type === "code"
+		? { cell_type: type, execution_count: null, ...(id && { id }), metadata: {}, outputs: [], source: [] }
+		: { cell_type: type, ...(id && { id }), metadata: {}, source: [] };
+	setCellSource(cell, lines);
+	return cell;
+}
+
+/** The source lines of every cell in order, and the line each cell starts at (1-indexed). */
+export function notebookLines(nb: Notebook): { lines: string[]; starts: number[] } {
+	const lines: string[] = [];
+	const starts: number[] = [];
+	for (const cell of nb.json.cells) {
+		starts.push(lines.length + 1);
+		lines.push(...cellSource(cell));
+	}
+	return { lines, starts };
+}
+
+/** `[outputs: stdout (12 lines); execute_result text/plain]`, or undefined if the cell has none. */
+export function describeOutputs(cell: NotebookCell): string | undefined {
+	if (!cell.outputs?.length) return undefined;
+	const parts = cell.outputs.map((o) => {
+		if (o.output_type === "stream") {
+			const text = Array.isArray(o.text) ? o.text.join("") : o.text ?? "";
+			const count = text.replace(/\n$/, "").split("\n").length;
+			return `${o.name ?? "stream"} (${count} ${count === 1 ? "line" : "lines"})`;
+		}
+		if (o.output_type === "error") return `error ${o.ename ?? ""}: ${preview(o.evalue ?? "")}`;
+		const types = Object.keys(o.data ?? {});
+		return types.length > 0 ? `${o.output_type} ${types.join(", ")}` : o.output_type;
+	});
+	return `[outputs: ${parts.join("; ")}]`;
+}
+
+/**
+ * Render cells `from`..`to` (1-indexed, inclusive): a `[cell 3] code [5]`
+ * header (with the execution count), the source lines, tagged as cell
+ * anchors at `width` if `hashes`, and the output summary; cells are separated
+ * by a blank line. `sources` gives the notebook line (see notebookLines) behind
+ * each output line, and `cells` the cell each output line belongs to.
+ */
+export function renderNotebook(
+	nb: Notebook, from: number, to: number, width: number, hashes: boolean,
+): { output: string[]; sources: (number | undefined)[]; cells: number[] } {
+	const { starts } = notebookLines(nb);
+	const output: string[] = [];
+	const sources: (number | undefined)[] = [];
+	const cells: number[] = [];
+	const push = (text: string, cell: number, source?: number) => {
+		output.push(text);
+		sources.push(source);
+		cells.push(cell);
+	};
+
+	for (let c = from; c <= to; c++) {
+		const cell = nb.json.cells[c - 1];
+		if (c > from) push("", c);
+		const count = cell.cell_type === "code" && cell.execution_count != null ? ` [${cell.execution_count}]` : "";
+		push(`[cell ${c}] ${cell.cell_type}${count}`, c);
+		const lines = cellSource(cell);
+		if (lines.length === 0) push("(empty)", c);
+		(hashes ? tagLines(lines, 1, width) : lines).forEach((line, i) => push(line, c, starts[c - 1] + i));
+		const outputs = describeOutputs(cell);
+		if (outputs) push(outputs, c);
+	}
+	return { output, sources, cells };
+}
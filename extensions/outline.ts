@@ -0,0 +1,244 @@
+/**
+ * Outline — the structure of a source file: the structural lines for read's
+ * outline mode, and the extent of a named symbol for read and change_file.
+ *
+ * TypeScript and JavaScript are parsed with the TypeScript compiler API:
+ * imports, exports, classes, interfaces, enums, namespaces, type aliases,
+ * functions (including arrow functions assigned to variables) and class or
+ * interface members are kept, along with the closing lines of containers.
+ * Other files, and TS/JS when the typescript package is unavailable, fall
+ * back to an indentation heuristic: top-level lines plus block headers one
+ * level in (methods in Python, Ruby, ...).
+ *
+ * Symbols are dotted paths like `MyClass.method` or `formatUnifiedDiff`. A
+ * declaration's extent includes its JSDoc comment and, for brace languages
+ * in the fallback, the closing bracket line.
+ */
+
+import * as path from "node:path";
+import type { Expression, Node, SourceFile } from "typescript";
+
+// No-op extension export — see hashline.ts.
+export default function () {}
+
+const TS_EXTS = new Set([".ts", ".tsx", ".mts", ".cts", ".js", ".jsx", ".mjs", ".cjs"]);
+
+/** 1-indexed numbers of the structural lines of `lines`, sorted. */
+export async function outlineLines(filePath: string, lines: string[]): Promise<number[]> {
+	const ts = await loadTypeScript(filePath);
+	return ts ? tsOutline(ts, filePath, lines) : indentOutline(lines);
+}
+
+/** The typescript package, if `filePath` is TS/JS and the package is installed. */
+async function loadTypeScript(filePath: string): Promise<typeof import("typescript") | undefined> {
+	if (!TS_EXTS.has(path.extname(filePath).toLowerCase())) return undefined;
+	return import("typescript")
+		.then((m: { default?: typeof import("typescript") }) => m.default ?? (m as typeof import("typescript")))
+		.catch(() => undefined);
+}
+
+function tsOutline(ts: typeof import("typescript"), filePath: string, lines: string[]): number[] {
+	const sf = ts.createSourceFile(path.basename(filePath), lines.join("\n"), ts.ScriptTarget.Latest, true);
+	const shown = new Set<number>();
+	const lineOf = (pos: number) => sf.getLineAndCharacterOfPosition(pos).line + 1;
+	const head = (node: Node) => shown.add(lineOf(node.getStart(sf)));
+	const container = (node: Node, members: readonly Node[]) => {
+		head(node);
+		members.forEach(visit);
+		shown.add(lineOf(node.getEnd()));
+	};
+
+	const isFunctionLike = (e: Expression | undefined): boolean => !!e && (
+		ts.isArrowFunction(e) || ts.isFunctionExpression(e) || ts.isClassExpression(e)
+		|| (ts.isCallExpression(e) && e.arguments.some(isFunctionLike))
+		|| (ts.isBinaryExpression(e) && isFunctionLike(e.right))
+	);
+
+	function visit(node: Node): void {
+		if (ts.isClassDeclaration(node) || ts.isClassExpression(node)) {
+			container(node, node.members);
+		} else if (ts.isInterfaceDeclaration(node)) {
+			container(node, node.members);
+		} else if (ts.isModuleDeclaration(node)) {
+			const body = node.body;
+			if (body && ts.isModuleBlock(body)) container(node, body.statements);
+			else head(node);
+		} else if (ts.isVariableStatement(node)) {
+			head(node);
+			// `const Foo = class { ... }` and friends: show the class members too
+			for (const decl of node.declarationList.declarations) {
+				if (decl.initializer && ts.isClassExpression(decl.initializer)) decl.initializer.members.forEach(visit);
+			}
+		} else if (
+			ts.isImportDeclaration(node) || ts.isImportEqualsDeclaration(node)
+			|| ts.isExportDeclaration(node) || ts.isExportAssignment(node)
+			|| ts.isFunctionDeclaration(node) || ts.isEnumDeclaration(node) || ts.isTypeAliasDeclaration(node)
+			|| ts.isMethodDeclaration(node) || ts.isConstructorDeclaration(node)
+			|| ts.isGetAccessorDeclaration(node) || ts.isSetAccessorDeclaration(node)
+			|| ts.isPropertyDeclaration(node) || ts.isPropertySignature(node) || ts.isMethodSignature(node)
+			|| ts.isIndexSignatureDeclaration(node) || ts.isCallSignatureDeclaration(node)
+			|| ts.isConstructSignatureDeclaration(node) || ts.isClassStaticBlockDeclaration(node)
+		) {
+			head(node);
+		} else if (ts.isExpressionStatement(node) && isFunctionLike(node.expression)) {
+			// e.g. `module.exports = function () { ... }` or `describe("x", () => { ... })`
+			head(node);
+		}
+	}
+
+	sf.statements.forEach(visit);
+	return [...shown].filter((n) => n >= 1 && n <= lines.length).sort((a, b) => a - b);
+}
+
+/**
+ * Non-blank lines at the file's lowest indentation, plus lines one indentation
+ * level deeper that open a more indented block.
+ */
+function indentOutline(lines: string[]): number[] {
+	const indent = lines.map((l) => (l.trim() === "" ? -1 : l.length - l.trimStart().length));
+	let base = Infinity;
+	for (const n of indent) if (n >= 0 && n < base) base = n;
+	if (base === Infinity) return [];
+	let second = Infinity;
+	for (const n of indent) if (n > base && n < second) second = n;
+
+	const shown: number[] = [];
+	let next = -1; // indentation of the next non-blank line, scanning upwards
+	for (let i = lines.length - 1; i >= 0; i--) {
+		if (indent[i] === base || (indent[i] === second && next > second)) shown.push(i + 1);
+		if (indent[i] >= 0) next = indent[i];
+	}
+	return shown.reverse();
+}
+
+export interface SymbolExtent {
+	/** Fully qualified name, e.g. `MyClass.method`. */
+	name: string;
+	/** First and last line of the declaration (1-indexed, inclusive). */
+	start: number;
+	end: number;
+}
+
+/**
+ * Find the declaration `symbol` (a dotted path) names. The path is matched
+ * from the top level first, then as a suffix at any depth, so `method` finds
+ * `MyClass.method` if that is the only `method`. Overloads are merged into one
+ * extent. Throws if the symbol is missing or ambiguous.
+ */
+export async function findSymbol(filePath: string, lines: string[], symbol: string): Promise<SymbolExtent> {
+	const parts = symbol.split(".").map((p) => p.trim());
+	if (parts.some((p) => p === "")) throw new Error(`Invalid symbol "${symbol}": expected a name or dotted path like "MyClass.method".`);
+
+	const ts = await loadTypeScript(filePath);
+	const all = ts ? tsSymbols(ts, filePath, lines) : indentSymbols(lines);
+	const exact = all.filter((s) => s.name === parts.join("."));
+	const matches = exact.length > 0 ? exact : all.filter((s) => s.name.endsWith("." + parts.join(".")));
+
+	// Overloads (and merged declarations) share a name and follow each other
+	const merged: SymbolExtent[] = [];
+	for (const m of [...matches].sort((a, b) => a.start - b.start)) {
+		const last = merged[merged.length - 1];
+		if (last && last.name === m.name && m.start <= last.end + 1) last.end = Math.max(last.end, m.end);
+		else merged.push({ ...m });
+	}
+
+	if (merged.length === 1) return merged[0];
+	if (merged.length > 1) {
+		throw new Error(
+			`Symbol "${symbol}" is ambiguous: ${merged.map((m) => `${m.name} (line ${m.start})`).join(", ")}. ` +
+			`Qualify it with its container, e.g. "${merged[0].name}".`
+		);
+	}
+	const last = parts[parts.length - 1];
+	const similar = all.filter((s) => s.name.split(".").pop()!.toLowerCase().includes(last.toLowerCase())).slice(0, 10);
+	throw new Error(
+		`Symbol "${symbol}" not found in ${path.basename(filePath)}.` +
+		(similar.length > 0 ? ` Similar: ${similar.map((s) => s.name).join(", ")}.` : "") +
+		` Use read with mode: "outline" to list its declarations.`
+	);
+}
+
+/** Every named declaration in a TS/JS file, with qualified names. */
+function tsSymbols(ts: typeof import("typescript"), filePath: string, lines: string[]): SymbolExtent[] {
+	const sf: SourceFile = ts.createSourceFile(path.basename(filePath), lines.join("\n"), ts.ScriptTarget.Latest, true);
+	const lineOf = (pos: number) => sf.getLineAndCharacterOfPosition(pos).line + 1;
+	const found: SymbolExtent[] = [];
+
+	const nameOf = (node: Node): string | undefined => {
+		if (ts.isConstructorDeclaration(node)) return "constructor";
+		const name = (node as { name?: Node }).name;
+		if (!name) return undefined;
+		if (ts.isIdentifier(name) || ts.isPrivateIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name)) {
+			return name.text;
+		}
+		return name.getText(sf);
+	};
+
+	/** Members of a container declaration, searched for the next part of a path. */
+	const membersOf = (node: Node): readonly Node[] => {
+		if (ts.isClassLike(node) || ts.isInterfaceDeclaration(node)) return node.members;
+		if (ts.isEnumDeclaration(node)) return node.members;
+		if (ts.isModuleDeclaration(node) && node.body) {
+			return ts.isModuleBlock(node.body) ? node.body.statements : [node.body];
+		}
+		if (ts.isVariableDeclaration(node) && node.initializer) {
+			const init = node.initializer;
+			if (ts.isClassExpression(init)) return init.members;
+			if (ts.isObjectLiteralExpression(init)) return init.properties;
+		}
+		return [];
+	};
+
+	const add = (name: string, extentNode: Node, node: Node, prefix: string) => {
+		const qualified = prefix + name;
+		found.push({ name: qualified, start: lineOf(extentNode.getStart(sf, true)), end: lineOf(extentNode.getEnd()) });
+		membersOf(node).forEach((m) => visit(m, qualified + "."));
+	};
+
+	function visit(node: Node, prefix: string): void {
+		if (ts.isVariableStatement(node)) {
+			const decls = node.declarationList.declarations;
+			for (const decl of decls) {
+				const name = nameOf(decl);
+				// A lone declaration owns the whole statement, `export const` and JSDoc included
+				if (name) add(name, decls.length === 1 ? node : decl, decl, prefix);
+			}
+			return;
+		}
+		if (ts.isExpressionStatement(node) || ts.isExportAssignment(node) || ts.isImportDeclaration(node)) return;
+		const name = nameOf(node);
+		if (name) add(name, node, node, prefix);
+	}
+
+	sf.statements.forEach((s) => visit(s, ""));
+	return found;
+}
+
+const HEADER = /^(\s*)(?:(?:export|public|private|protected|internal|static|async|pub|default|abstract|final|override|open)\s+)*(?:def|class|function|func|fn|sub|module|struct|impl|trait|interface|enum|object|namespace)\s+([A-Za-z_$][\w$]*)/;
+const CLOSER = /^\s*(?:[}\])]|end\b)/;
+
+/** Block headers found by keyword, each extending over the lines indented deeper than it. */
+function indentSymbols(lines: string[]): SymbolExtent[] {
+	const indent = (i: number) => lines[i].length - lines[i].trimStart().length;
+	const found: SymbolExtent[] = [];
+	const open: { name: string; indent: number }[] = [];
+
+	for (let i = 0; i < lines.length; i++) {
+		const m = lines[i].match(HEADER);
+		if (!m) continue;
+		const own = m[1].length;
+		while (open.length > 0 && open[open.length - 1].indent >= own) open.pop();
+
+		let end = i;
+		for (let j = i + 1; j < lines.length; j++) {
+			if (lines[j].trim() === "") continue;
+			if (indent(j) > own) { end = j; continue; }
+			if (indent(j) === own && CLOSER.test(lines[j])) end = j;
+			break;
+		}
+		const name = [...open.map((o) => o.name), m[2]].join(".");
+		found.push({ name, start: i + 1, end: end + 1 });
+		open.push({ name: m[2], indent: own });
+	}
+	return found;
+}
@@ -0,0 +1,157 @@
+/**
+ * Policy — which paths change_file may write (and read may read).
+ *
+ * Every change_file call is checked before anything else happens, in every
+ * mode. The rules come from the "policy" section of hh-read.json (config.ts):
+ *
+ * - roots: the write must land under one of these directories (default: the project)
+ * - deny: the path must not match these globs (default: `.git/`)
+ * - resolveSymlinks: roots and deny also apply to the real path behind symlinks,
+ *   including symlinked parent directories of files that don't exist yet
+ * - readBeforeOverwrite: create/overwrite may only replace an existing file the
+ *   model has read with change_file: true in its current version
+ *
+ * The project's own hh-read.json is never writable, so the model can't loosen
+ * its policy. Denials name the rule (and pattern) that fired.
+ */
+
+import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
+import { realpath } from "node:fs/promises";
+import * as path from "node:path";
+import { CONFIG_FILE, loadConfig, type PolicyConfig } from "./config.js";
+import { globToRegExp } from "./glob.js";
+import { contentDigest, getSnapshot } from "./snapshots.js";
+import { readTextFile, resolveTarget } from "./textfile.js";
+
+// No-op extension export — see hashline.ts.
+export default function () {}
+
+const DEFAULT_ROOTS = ["."];
+const DEFAULT_DENY = [".git/"];
+/** Denied regardless of config. */
+const PROTECTED = [`.pi/${CONFIG_FILE}`];
+
+type Ctx = Pick<ExtensionContext, "cwd" | "sessionManager">;
+
+/**
+ * Throw unless change_file may write `absPath`. `replace` is set for
+ * create/overwrite calls, which are subject to readBeforeOverwrite.
+ */
+export async function checkWrite(ctx: Ctx, absPath: string, filePath: string, opts: { replace: boolean }): Promise<void> {
+	const { policy } = loadConfig(ctx.cwd);
+	const denied = (rule: string, reason: string, pattern?: string) =>
+		policyError("writing", filePath, rule, reason, pattern);
+
+	const locations = await checkedLocations(ctx.cwd, absPath, policy);
+	const roots = policy.roots ?? DEFAULT_ROOTS;
+	for (const loc of locations) {
+		const rootDirs = await Promise.all(roots.map((r) => locate(path.resolve(ctx.cwd, r), loc.real)));
+		if (!rootDirs.some((dir) => isInside(loc.path, dir))) {
+			throw denied("roots", `${loc.describe} outside the allowed roots (${roots.join(", ")})`);
+		}
+	}
+
+	for (const loc of locations) {
+		const pattern = PROTECTED.find((p) => matches(loc.rel, p));
+		if (pattern) throw denied("protected", `${loc.describe} this package's config file; edit it by hand`, pattern);
+	}
+	checkDeny(locations, policy.deny ?? DEFAULT_DENY, denied);
+
+	if (opts.replace && policy.readBeforeOverwrite !== false) {
+		const existing = await readTextFile(absPath).catch(() => undefined);
+		if (existing && getSnapshot(ctx, absPath)?.digest !== contentDigest(existing.raw)) {
+			throw denied(
+				"readBeforeOverwrite",
+				`it exists and has not been read with change_file: true in its current version; ` +
+				`read it first, or edit it with hashes instead of overwriting it`,
+			);
+		}
+	}
+}
+
+/** Throw if read may not read `absPath` (only when policy.denyRead is set). */
+export async function checkRead(cwd: string, absPath: string, filePath: string): Promise<void> {
+	const { policy } = loadConfig(cwd);
+	if (!policy.denyRead) return;
+	const locations = await checkedLocations(cwd, absPath, policy);
+	checkDeny(locations, policy.deny ?? DEFAULT_DENY, (rule, reason, pattern) =>
+		policyError("reading", filePath, rule, reason, pattern));
+}
+
+interface Location {
+	/** Absolute path, either as given or with symlinks resolved. */
+	path: string;
+	/** Path relative to the project root (in the same form), for glob matching. */
+	rel: string;
+	real: boolean;
+	/** Subject for error messages: "the path is" / "its real path ... is". */
+	describe: string;
+}
+
+/** The path as given and, with resolveSymlinks, its real location if that differs. */
+async function checkedLocations(cwd: string, absPath: string, policy: PolicyConfig): Promise<Location[]> {
+	const given = path.resolve(absPath);
+	const locations: Location[] = [{ path: given, rel: path.relative(cwd, given), real: false, describe: "the path is" }];
+	if (policy.resolveSymlinks !== false) {
+		const real = await realLocation(given);
+		if (real !== given) {
+			const rel = path.relative(await realLocation(cwd), real);
+			locations.push({ path: real, rel, real: true, describe: `its real path (through a symlink) is ${real},` });
+		}
+	}
+	return locations;
+}
+
+function checkDeny(
+	locations: Location[], deny: string[],
+	denied: (rule: string, reason: string, pattern?: string) => Error,
+): void {
+	for (const loc of locations) {
+		const pattern = deny.find((p) => matches(loc.rel, p));
+		if (pattern) throw denied("deny", `${loc.describe} matched by a denied pattern`, pattern);
+	}
+}
+
+/** Paths outside the project (`../x`) never match project globs. */
+function matches(rel: string, pattern: string): boolean {
+	if (isOutside(rel)) return false;
+	return globToRegExp(pattern).test(rel.split(path.sep).join("/"));
+}
+
+function isInside(p: string, dir: string): boolean {
+	return !isOutside(path.relative(dir, p));
+}
+
+function isOutside(rel: string): boolean {
+	return rel === ".." || rel.startsWith(".." + path.sep) || path.isAbsolute(rel);
+}
+
+/** Compare like with like: a real path against the root's real path. */
+async function locate(root: string, real: boolean): Promise<string> {
+	return real ? realLocation(root) : root;
+}
+
+/**
+ * Where a write to `absPath` would really land: symlinks followed, and for
+ * files that don't exist yet, the nearest existing parent directory resolved.
+ */
+async function realLocation(absPath: string): Promise<string> {
+	const target = await resolveTarget(absPath);
+	const rest: string[] = [];
+	for (let dir = target; ; dir = path.dirname(dir)) {
+		try {
+			return path.join(await realpath(dir), ...rest);
+		} catch (err) {
+			const code = (err as NodeJS.ErrnoException).code;
+			if (code !== "ENOENT" && code !== "ENOTDIR") throw err;
+		}
+		if (path.dirname(dir) === dir) return target;
+		rest.unshift(path.basename(dir));
+	}
+}
+
+function policyError(action: string, filePath: string, rule: string, reason: string, pattern?: string): Error {
+	const fired = pattern != null ? `rule: ${rule}, pattern: "${pattern}"` : `rule: ${rule}`;
+	const hint = rule === "protected" ? "" : ` To allow it, change "policy" in .pi/${CONFIG_FILE}.`;
+	return new Error(`Policy denied ${action} ${filePath} (${fired}): ${reason}.${hint}`);
+}
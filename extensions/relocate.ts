@@ -0,0 +1,95 @@
+/**
+ * Relocate — find where a previously shown line went after the file changed.
+ *
+ * When a file changes between the model's read and its change_file call,
+ * each stale hash is looked up in the read snapshot to get the line's old
+ * position and content, and the current file is searched for the same or
+ * similar content. Candidates are offered to the model (with their current
+ * line, new hash and a preview), or followed directly with auto_relocate
+ * when exactly one of them is a high-confidence match.
+ */
+
+import { lineHash } from "./hashline.js";
+
+// No-op extension export — see hashline.ts.
+export default function () {}
+
+export interface Candidate {
+	/** Current 1-indexed line number. */
+	line: number;
+	/** Current hash at the file's hash width. */
+	hash: string;
+	text: string;
+	/** 1 = identical, 0.95 = identical up to indentation, below = bigram similarity. */
+	score: number;
+}
+
+/** How far from the old position similar (not identical) lines are searched. */
+export const RELOCATE_WINDOW = 50;
+/** Minimum similarity for a line to be offered as a candidate. */
+const MIN_SCORE = 0.6;
+/** Minimum similarity for a candidate to be followed automatically. */
+export const HIGH_CONFIDENCE = 0.9;
+const MAX_CANDIDATES = 3;
+const PREVIEW_CHARS = 80;
+
+/**
+ * Find current lines that most likely are the line that was at `oldLine`
+ * with content `oldText`. Identical lines are searched in the whole file,
+ * similar ones within RELOCATE_WINDOW lines. `confident` is set only when
+ * exactly one line scores HIGH_CONFIDENCE or more.
+ */
+export function findCandidates(
+	fileLines: string[], oldLine: number, oldText: string, width: number,
+): { candidates: Candidate[]; confident?: Candidate } {
+	const all: Candidate[] = [];
+	const lo = Math.max(1, oldLine - RELOCATE_WINDOW);
+	const hi = Math.min(fileLines.length, oldLine + RELOCATE_WINDOW);
+	for (let i = 1; i <= fileLines.length; i++) {
+		const text = fileLines[i - 1];
+		if (text.length === 0) continue;
+		const score = text === oldText ? 1 : i >= lo && i <= hi ? similarity(oldText, text) : 0;
+		if (score >= MIN_SCORE) all.push({ line: i, hash: lineHash(text, width), text, score });
+	}
+
+	all.sort((a, b) => b.score - a.score || Math.abs(a.line - oldLine) - Math.abs(b.line - oldLine));
+	const high = all.filter((c) => c.score >= HIGH_CONFIDENCE);
+	return {
+		candidates: all.slice(0, MAX_CANDIDATES),
+		confident: high.length === 1 ? high[0] : undefined,
+	};
+}
+
+/** `45:Xy|  return foo;` — shaped like read output with anchors, so it can be used as-is. */
+export function formatCandidate(c: Candidate): string {
+	return `${c.line}:${c.hash}|${preview(c.text)}`;
+}
+
+export function preview(text: string): string {
+	return text.length > PREVIEW_CHARS ? text.slice(0, PREVIEW_CHARS - 1) + "…" : text;
+}
+
+/**
+ * Similarity of two lines in [0, 1]. Lines that differ only in surrounding
+ * whitespace (e.g. re-indented by a formatter) score 0.95; otherwise the
+ * Dice coefficient of their character bigrams.
+ */
+export function similarity(a: string, b: string): number {
+	if (a === b) return 1;
+	const ta = a.trim(), tb = b.trim();
+	if (ta === tb) return 0.95;
+	if (ta.length < 2 || tb.length < 2) return 0;
+
+	const bigrams = new Map<string, number>();
+	for (let i = 0; i < ta.length - 1; i++) {
+		const g = ta.slice(i, i + 2);
+		bigrams.set(g, (bigrams.get(g) ?? 0) + 1);
+	}
+	let overlap = 0;
+	for (let i = 0; i < tb.length - 1; i++) {
+		const g = tb.slice(i, i + 2);
+		const n = bigrams.get(g) ?? 0;
+		if (n > 0) { overlap++; bigrams.set(g, n - 1); }
+	}
+	return (2 * overlap) / (ta.length - 1 + tb.length - 1);
+}
@@ -0,0 +1,28 @@
+/**
+ * Per-session state shared between the extensions in this package.
+ *
+ * pi loads every extension with its own module cache, so module-level
+ * variables in a shared file are NOT shared between hh-read.ts and
+ * edit-file.ts. State therefore lives on globalThis, keyed by session id,
+ * and is looked up through the tool's ExtensionContext.
+ */
+
+import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
+
+// No-op extension export — see hashline.ts.
+export default function () {}
+
+const STORE: unique symbol = Symbol.for("pi-hh-read.session-state");
+
+/** globalThis with the store: values by key, by session id. */
+const store = globalThis as typeof globalThis & { [STORE]?: Map<string, Map<string, unknown>> };
+
+/** Get (or lazily create) the value stored under `key` for the current session. */
+export function sessionState<T>(ctx: Pick<ExtensionContext, "sessionManager">, key: string, init: () => T): T {
+	const root = (store[STORE] ??= new Map());
+	const id = ctx.sessionManager.getSessionId();
+	let session = root.get(id);
+	if (!session) root.set(id, (session = new Map()));
+	if (!session.has(key)) session.set(key, init());
+	return session.get(key) as T;
+}
@@ -0,0 +1,64 @@
+/**
+ * Settings — the tool and hash settings of hh-read.json (config.ts) in
+ * effect for a session.
+ *
+ * /hashline (tweaks.ts) can change the hash settings for the rest of a
+ * session; those overrides live in session state, so read, grep and
+ * change_file see them through the same lookup as the config files.
+ */
+
+import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
+import { loadConfig } from "./config.js";
+import { HASH_WIDTHS } from "./hashline.js";
+import { sessionState } from "./session-state.js";
+
+// No-op extension export — see hashline.ts.
+export default function () {}
+
+export interface HashSettings {
+	/** Whether read tags lines with hashes when called without change_file. */
+	readChangeFile: boolean;
+	/** Narrowest hash width shown (see hashWidth). */
+	width: number;
+}
+
+export interface ToolSettings {
+	enable: string[];
+	disable: string[];
+}
+
+const DEFAULT_ENABLE = ["grep"];
+const DEFAULT_DISABLE = ["edit", "write"];
+
+type Ctx = Pick<ExtensionContext, "cwd" | "sessionManager">;
+
+function overrides(ctx: Ctx): Partial<HashSettings> {
+	return sessionState(ctx, "hash-settings", (): Partial<HashSettings> => ({}));
+}
+
+/** Hash settings from the config files, without this session's overrides. */
+export function configuredHashSettings(cwd: string): HashSettings {
+	const { hashes } = loadConfig(cwd);
+	return { readChangeFile: hashes.readChangeFile ?? false, width: hashes.width ?? HASH_WIDTHS[0] };
+}
+
+/** Hash settings in effect: the config files', overridden by /hashline. */
+export function hashSettings(ctx: Ctx): HashSettings {
+	return { ...configuredHashSettings(ctx.cwd), ...overrides(ctx) };
+}
+
+/** Override hash settings for the rest of the session; undefined drops every override. */
+export function overrideHashSettings(ctx: Ctx, patch: Partial<HashSettings> | undefined): void {
+	const current = overrides(ctx);
+	if (patch === undefined) {
+		for (const key of Object.keys(current) as (keyof HashSettings)[]) delete current[key];
+	} else {
+		Object.assign(current, patch);
+	}
+}
+
+/** Tools to activate and deactivate at session start. */
+export function toolSettings(cwd: string): ToolSettings {
+	const { tools } = loadConfig(cwd);
+	return { enable: tools.enable ?? DEFAULT_ENABLE, disable: tools.disable ?? DEFAULT_DISABLE };
+}
@@ -0,0 +1,216 @@
+/**
+ * Read snapshots — which version of each file the model has seen with hashes.
+ *
+ * Every `read` or `grep` with `change_file: true` records the file's content
+ * digest, mtime and the hash of each line it showed. change_file checks its edits
+ * against that record: if the file changed on disk since the last hashed
+ * read, or an edit targets a line the model was never shown, the edit is
+ * rejected instead of trusting a 2-char hash that may collide.
+ *
+ * Successful edits update the record, so the model can keep editing with
+ * the hashes change_file reported without re-reading. The record also keeps
+ * the version's full text, so read with since_last_read can show just what
+ * changed since.
+ */
+
+import { createHash } from "node:crypto";
+import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
+import { HASH_WIDTHS, lineHash } from "./hashline.js";
+import { sessionState } from "./session-state.js";
+
+// No-op extension export — see hashline.ts.
+export default function () {}
+
+export interface SnapshotVersion {
+	/** sha256 of the decoded file text the hashes were computed from (size and mtime for large files, see stream.ts). */
+	digest: string;
+	mtimeMs: number;
+	/** Hash width the model was last shown for this file (see hashWidth). */
+	width: number;
+	/** The version's decoded lines, for diffing against later versions. Not kept for large files. */
+	lines?: string[];
+}
+
+export interface ShownLine {
+	/** Widest hash of the line. Narrower hashes are suffixes of it, so one entry verifies every width. */
+	hash: string;
+	/** Line content, kept so stale hashes can be relocated after the file changes. */
+	text: string;
+}
+
+export interface ReadSnapshot extends SnapshotVersion {
+	/** Every line shown for this version, by 1-indexed line number. */
+	shown: Map<number, ShownLine>;
+	/** The version recorded before this one, kept so its hashes can still be relocated. */
+	previous?: ReadSnapshot;
+}
+
+const FULL_WIDTH = HASH_WIDTHS[HASH_WIDTHS.length - 1];
+
+/** A line-range replacement, in the coordinates of the file before the edit. */
+export interface SnapshotChange {
+	/** First replaced line, or the line inserted before (1-indexed). */
+	start: number;
+	/** Number of lines removed at start. */
+	removed: number;
+	/** Lines written in their place. */
+	lines: string[];
+}
+
+type Ctx = Pick<ExtensionContext, "sessionManager">;
+
+function registry(ctx: Ctx): Map<string, ReadSnapshot> {
+	return sessionState(ctx, "snapshots", () => new Map<string, ReadSnapshot>());
+}
+
+export function contentDigest(text: string): string {
+	return createHash("sha256").update(text).digest("hex");
+}
+
+export function getSnapshot(ctx: Ctx, absPath: string): ReadSnapshot | undefined {
+	return registry(ctx).get(absPath);
+}
+
+/**
+ * Record that `lines` were shown starting at line `start` (1-indexed).
+ * Windows of the same file version accumulate; a new version replaces the record.
+ */
+export function recordRead(
+	ctx: Ctx, absPath: string,
+	version: SnapshotVersion,
+	start: number, lines: string[],
+): void {
+	const reg = registry(ctx);
+	let snap = reg.get(absPath);
+	if (!snap || snap.digest !== version.digest) {
+		snap = { ...version, shown: new Map(), previous: snap && { ...snap, previous: undefined } };
+		reg.set(absPath, snap);
+	}
+	snap.mtimeMs = version.mtimeMs;
+	snap.width = version.width;
+	lines.forEach((line, i) => snap!.shown.set(start + i, shownLine(line)));
+}
+
+/**
+ * Carry a snapshot over a successful edit: shown lines outside the changes move
+ * with the edit, replaced lines are dropped, and written lines count as shown
+ * (unless `markWritten` is false, for changes the model has not seen yet).
+ * `changes` must be sorted top to bottom and must not overlap.
+ */
+export function recordEdit(
+	ctx: Ctx, absPath: string,
+	version: SnapshotVersion,
+	changes: SnapshotChange[],
+	{ markWritten = true }: { markWritten?: boolean } = {},
+): void {
+	const reg = registry(ctx);
+	const prev = reg.get(absPath);
+	const shown = new Map<number, ShownLine>();
+
+	if (prev) {
+		for (const [line, entry] of prev.shown) {
+			let shift = 0, replaced = false;
+			for (const c of changes) {
+				if (line < c.start) break;
+				if (line < c.start + c.removed) { replaced = true; break; }
+				shift += c.lines.length - c.removed;
+			}
+			if (!replaced) shown.set(line + shift, entry);
+		}
+	}
+
+	let shift = 0;
+	for (const c of changes) {
+		if (markWritten) c.lines.forEach((line, i) => shown.set(c.start + shift + i, shownLine(line)));
+		shift += c.lines.length - c.removed;
+	}
+
+	reg.set(absPath, { ...version, shown, previous: prev && { ...prev, previous: undefined } });
+}
+
+/**
+ * Carry the record of `from` over to `to` after a move or copy, which keep the
+ * content and so every hash shown. A move (and a delete, with no `to`) drops
+ * the record of `from`.
+ */
+export function transferSnapshot(ctx: Ctx, from: string, to: string | undefined, { keep }: { keep: boolean }): void {
+	const reg = registry(ctx);
+	const snap = reg.get(from);
+	if (to != null) {
+		if (snap) reg.set(to, { ...snap, shown: new Map(snap.shown), previous: undefined });
+		else reg.delete(to);
+	}
+	if (!keep) reg.delete(from);
+}
+
+function shownLine(text: string): ShownLine {
+	return { hash: lineHash(text, FULL_WIDTH), text };
+}
+
+/**
+ * Lines shown for `hash` (any width), optionally only at or after `offset`.
+ * For a line-qualified anchor, pass its line to get just that line if it matches.
+ */
+export function findShown(snap: ReadSnapshot, hash: string, opts: { line?: number; offset?: number } = {}): number[] {
+	if (opts.line != null) return snap.shown.get(opts.line)?.hash.endsWith(hash) ? [opts.line] : [];
+	return [...snap.shown]
+		.filter(([line, entry]) => entry.hash.endsWith(hash) && line >= (opts.offset ?? 1))
+		.map(([line]) => line)
+		.sort((a, b) => a - b);
+}
+
+/** Compact "50–120, 300–340" description of the shown lines. */
+export function shownRanges(snap: ReadSnapshot): string {
+	const lines = [...snap.shown.keys()].sort((a, b) => a - b);
+	const ranges: string[] = [];
+	for (let i = 0; i < lines.length;) {
+		let j = i;
+		while (j + 1 < lines.length && lines[j + 1] === lines[j] + 1) j++;
+		ranges.push(i === j ? `${lines[i]}` : `${lines[i]}–${lines[j]}`);
+		i = j + 1;
+	}
+	return ranges.join(", ");
+}
+
+/** Reject edits to a file that was never read with hashes or has changed since. */
+export function assertFresh(snap: ReadSnapshot | undefined, digest: string, filePath: string): asserts snap is ReadSnapshot {
+	if (!snap) {
+		throw new Error(
+			`${filePath} has not been read with change_file: true in this session. ` +
+			`Read it with change_file: true before editing.`
+		);
+	}
+	if (snap.digest !== digest) {
+		throw new Error(
+			`${staleMessage(filePath)} Re-read lines ${shownRanges(snap)} with change_file: true before editing.`
+		);
+	}
+}
+
+export function staleMessage(filePath: string): string {
+	return `${filePath} has changed on disk since it was last read (e.g. by a formatter, another tool or an editor).`;
+}
+
+/** Reject a resolved hash whose line was not shown in the last read of this version. */
+export function assertShown(snap: ReadSnapshot, line: number, hash: string, label: string): void {
+	if (hash.length < snap.width) {
+		throw new Error(
+			`${label}Hash "${hash}" is too short: hashes for this file are ${snap.width} chars wide ` +
+			`to avoid collisions. Use the hashes exactly as read showed them.`
+		);
+	}
+	if (snap.shown.get(line)?.hash.endsWith(hash)) return;
+
+	const shownAt = findShown(snap, hash);
+	if (shownAt.length === 0) {
+		throw new Error(
+			`${label}Hash "${hash}" was not shown in your last read of this file (lines ${shownRanges(snap)}). ` +
+			`Re-read the lines you want to edit with change_file: true.`
+		);
+	}
+	throw new Error(
+		`${label}Hash "${hash}" resolves to line ${line}, which was not shown in your last read ` +
+		`(lines ${shownRanges(snap)}); you were shown it at line ${shownAt.join(", ")}. ` +
+		`Pass the offset you read with so the hash resolves to the line you saw.`
+	);
+}
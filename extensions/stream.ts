@@ -0,0 +1,244 @@
+/**
+ * Stream — line access to files too large to load whole.
+ *
+ * Above LARGE_FILE_BYTES, read, grep and change_file stop parsing the whole
+ * file. They scan it for just the line ranges they need, stopping after the
+ * last one, and change_file writes its edits by copying the file through to
+ * a temp file, replacing the edited ranges on the way. Lines are split on
+ * "\n" bytes, which never occur inside a UTF-8 sequence, so lines outside
+ * the ranges are never decoded.
+ *
+ * The encoding is told from the file's start (see streamEncoding): UTF-8, or
+ * Latin-1 if that is not valid UTF-8. A file that starts as UTF-8 may still
+ * have Latin-1 bytes further on; scanLines reports scanned lines that aren't
+ * valid UTF-8, so they are neither hashed nor edited.
+ *
+ * Such files are versioned by size and mtime instead of a content digest,
+ * and always hashed at the widest width: picking a narrower one would take
+ * every line, and at this size it would collide anyway.
+ */
+
+import { formatSize } from "@mariozechner/pi-coding-agent";
+import { isUtf8 } from "node:buffer";
+import { createReadStream } from "node:fs";
+import { open } from "node:fs/promises";
+import { HASH_WIDTHS } from "./hashline.js";
+import type { SnapshotChange } from "./snapshots.js";
+import { detectEncoding, replaceFileAtomic } from "./textfile.js";
+
+// No-op extension export — see hashline.ts.
+export default function () {}
+
+/** Files larger than this are streamed rather than read whole. */
+export const LARGE_FILE_BYTES = 32 * 1024 * 1024;
+
+/** Hash width of every line in a large file. */
+export const LARGE_FILE_WIDTH = HASH_WIDTHS[HASH_WIDTHS.length - 1];
+
+const CHUNK_BYTES = 1024 * 1024;
+const NEWLINE = 0x0a;
+const BOM_BYTES = Buffer.from([0xef, 0xbb, 0xbf]);
+
+/** Encodings a large file can be streamed in: those in which "\n" bytes only ever end lines. */
+export type StreamEncoding = "utf-8" | "latin1";
+
+/** A 1-indexed, inclusive range of lines. */
+export interface LineRange {
+	from: number;
+	to: number;
+}
+
+export interface ScannedLines {
+	/** Decoded lines in the requested ranges, without endings or BOM, by line number. */
+	lines: Map<number, string>;
+	/** Number of lines in the file, if the scan reached its end. */
+	total?: number;
+	/** Dominant line ending among the scanned lines, used for newly written lines. */
+	eol: "\n" | "\r\n";
+	/** Whether a scanned line was not valid UTF-8, though the file was scanned as UTF-8. */
+	malformed: boolean;
+}
+
+/** Stands in for the content digest of a large file (see SnapshotVersion). */
+export function largeFileDigest(stats: { size: number; mtimeMs: number }): string {
+	return `size:${stats.size},mtime:${stats.mtimeMs}`;
+}
+
+/**
+ * The encoding to stream a large file in, from its first bytes (see
+ * detectEncoding); undefined for UTF-16 and binary files, which can't be
+ * split into lines on "\n" bytes.
+ */
+export function streamEncoding(sample: Buffer): StreamEncoding | undefined {
+	const encoding = detectEncoding(sample);
+	return encoding === "utf-8" || encoding === "latin1" ? encoding : undefined;
+}
+
+/** The error for an operation that would need all of a large file in memory. */
+export function wholeFileError(filePath: string, size: number, operation: string, alternative: string): Error {
+	return new Error(`${filePath} is ${formatSize(size)}, too large to load whole, and ${operation} needs the whole file. ${alternative}`);
+}
+
+/**
+ * Read the lines of `ranges` (which may overlap) from the file, stopping after
+ * the last one, decoded from `encoding`. Lines past the end of the file are
+ * simply missing.
+ */
+export async function scanLines(
+	absPath: string, ranges: LineRange[], signal?: AbortSignal, encoding: StreamEncoding = "utf-8",
+): Promise<ScannedLines> {
+	const last = Math.max(0, ...ranges.map((r) => r.to));
+	const wanted = (n: number) => ranges.some((r) => n >= r.from && n <= r.to);
+	const lines = new Map<number, string>();
+	let crlf = 0, lf = 0;
+	let malformed = false;
+	const done = (total?: number): ScannedLines => ({ lines, total, eol: crlf > lf ? "\r\n" : "\n", malformed });
+
+	let n = 1;
+	let parts: Buffer[] = []; // bytes of line n so far, if it is wanted
+	let partial = false; // whether line n has any bytes yet
+	const take = () => {
+		const bytes = Buffer.concat(parts);
+		if (encoding === "utf-8" && !isUtf8(bytes)) malformed = true;
+		let text = bytes.toString(encoding);
+		if (n === 1 && text.startsWith("\uFEFF")) text = text.slice(1);
+		lines.set(n, text);
+	};
+
+	if (last < 1) return done();
+	const stream = createReadStream(absPath, { highWaterMark: CHUNK_BYTES });
+	try {
+		for await (const chunk of stream as AsyncIterable<Buffer>) {
+			if (signal?.aborted) throw new Error("Operation aborted");
+			let pos = 0;
+			while (pos < chunk.length) {
+				const nl = chunk.indexOf(NEWLINE, pos);
+				const end = nl === -1 ? chunk.length : nl;
+				if (end > pos) {
+					partial = true;
+					if (wanted(n)) parts.push(chunk.subarray(pos, end));
+				}
+				if (nl === -1) break;
+
+				if (wanted(n)) {
+					const cr = parts.length > 0 && parts[parts.length - 1].at(-1) === 0x0d;
+					if (cr) parts[parts.length - 1] = parts[parts.length - 1].subarray(0, -1);
+					if (cr) crlf++;
+					else lf++;
+					take();
+				}
+				parts = [];
+				partial = false;
+				n++;
+				pos = nl + 1;
+				if (n > last) return done();
+			}
+		}
+	} finally {
+		stream.destroy();
+	}
+
+	// A last line without a final newline keeps any "\r", as in parseText
+	if (!partial) return done(n - 1);
+	if (wanted(n)) take();
+	return done(n);
+}
+
+/** Read up to `length` bytes at byte `position`: fewer at the end of the file. */
+export async function readBytes(absPath: string, position: number, length: number): Promise<Buffer> {
+	const file = await open(absPath, "r");
+	try {
+		const buffer = Buffer.alloc(length);
+		const { bytesRead } = await file.read(buffer, 0, length, position);
+		return buffer.subarray(0, bytesRead);
+	} finally {
+		await file.close();
+	}
+}
+
+/**
+ * Scanned lines as an array indexed like a whole file's lines, up to the last
+ * one scanned. Lines that were not scanned are empty, which never match a hash.
+ */
+export function lineArray(lines: Map<number, string>): string[] {
+	let length = 0;
+	for (const n of lines.keys()) if (n > length) length = n;
+	const out = new Array<string>(length).fill("");
+	for (const [n, text] of lines) out[n - 1] = text;
+	return out;
+}
+
+/**
+ * Apply `changes` (sorted top to bottom, not overlapping) by copying the file
+ * through to a temp file that then replaces it. Untouched lines are copied as
+ * bytes; new lines are encoded in `encoding` and end with `eol`, except where
+ * they replace a last line without a final newline. A BOM is kept even if
+ * line 1 is replaced.
+ */
+export async function rewriteLines(
+	absPath: string, changes: SnapshotChange[], eol: string, signal?: AbortSignal, encoding: StreamEncoding = "utf-8",
+): Promise<void> {
+	const written = (c: SnapshotChange, ending: string) =>
+		Buffer.from(c.lines.map((l, i) => l + (i < c.lines.length - 1 ? eol : ending)).join(""), encoding);
+
+	await replaceFileAtomic(absPath, async (tmp) => {
+		const out = await open(tmp, "wx");
+		const stream = createReadStream(absPath, { highWaterMark: CHUNK_BYTES });
+		try {
+			let n = 1;
+			let next = 0; // index of the next change to apply
+			let removing: SnapshotChange | undefined;
+			let lineStart = true;
+			let first = true;
+
+			for await (const chunk of stream as AsyncIterable<Buffer>) {
+				if (signal?.aborted) throw new Error("Operation aborted");
+				const pieces: Buffer[] = [];
+				let pos = 0, copyFrom = 0;
+				if (first && chunk.subarray(0, 3).equals(BOM_BYTES)) pos = 3;
+				first = false;
+
+				while (true) {
+					if (lineStart) {
+						lineStart = false;
+						while (!removing && next < changes.length && changes[next].start === n) {
+							pieces.push(chunk.subarray(copyFrom, pos));
+							copyFrom = pos;
+							const c = changes[next];
+							if (c.removed > 0) removing = c;
+							else {
+								pieces.push(written(c, eol));
+								next++;
+							}
+						}
+					}
+					const nl = chunk.indexOf(NEWLINE, pos);
+					if (nl === -1) break;
+					pos = nl + 1;
+					if (removing) {
+						copyFrom = pos;
+						if (n === removing.start + removing.removed - 1) {
+							pieces.push(written(removing, eol));
+							removing = undefined;
+							next++;
+						}
+					}
+					n++;
+					lineStart = true;
+				}
+				if (!removing) pieces.push(chunk.subarray(copyFrom));
+				await out.writev(pieces);
+			}
+
+			if (removing) {
+				// The range ran to a last line without a final newline
+				await out.write(written(removing, ""));
+				next++;
+			}
+			if (next < changes.length) throw new Error(`${absPath} ends before line ${changes[next].start}; nothing was written.`);
+		} finally {
+			stream.destroy();
+			await out.close();
+		}
+	});
+}
@@ -0,0 +1,231 @@
+/**
+ * Text file I/O shared by the read and change_file tools.
+ *
+ * Files are parsed into lines without their endings, plus the per-line
+ * ending, the file's dominant EOL style and whether it has a BOM. Hashes are
+ * computed on the bare lines, so CRLF and LF checkouts of the same file hash
+ * identically, and untouched lines keep their exact endings when the file is
+ * written back.
+ *
+ * Files are decoded as UTF-8, as UTF-16 if they start with its BOM, or as
+ * Latin-1 if they are not valid UTF-8 (see detectEncoding), and written back
+ * in the same encoding. Latin-1 maps every byte to a character, so any file
+ * that isn't UTF-8 decodes; files that look binary are not decoded at all.
+ *
+ * Writes go to a temp file in the target's directory and are renamed into
+ * place, so a crash or abort never leaves a half-written file. Symlinks are
+ * followed and the link itself is kept; an existing file's mode is preserved.
+ */
+
+import { isUtf8 } from "node:buffer";
+import { randomBytes } from "node:crypto";
+import { chmod, lstat, mkdir, readFile, readlink, realpath, rename, stat, unlink, writeFile } from "node:fs/promises";
+import * as path from "node:path";
+
+// No-op extension export — see hashline.ts.
+export default function () {}
+
+const BOM = "\uFEFF";
+
+/** Encodings text files are decoded from and written back in. */
+export type TextEncoding = "utf-8" | "utf-16le" | "utf-16be" | "latin1";
+
+export const ENCODING_NAMES: Record<TextEncoding, string> = {
+	"utf-8": "UTF-8", "utf-16le": "UTF-16LE", "utf-16be": "UTF-16BE", latin1: "Latin-1",
+};
+
+/** Bytes at the start of a file inspected to tell text from binary. */
+export const SNIFF_BYTES = 8192;
+
+export interface TextFile {
+	/** Line contents without their endings. A final newline does not start an extra line. */
+	lines: string[];
+	/** Ending of each line: "\n" or "\r\n", or "" for a last line without a final newline. */
+	endings: string[];
+	/** Dominant line ending, used for newly written lines. */
+	eol: "\n" | "\r\n";
+	/** Whether the file starts with a byte order mark (in its encoding, see TextEncoding). */
+	bom: boolean;
+}
+
+/** Split decoded file text into lines, endings, EOL style and BOM. */
+export function parseText(text: string): TextFile {
+	const bom = text.startsWith(BOM);
+	if (bom) text = text.slice(1);
+
+	const lines: string[] = [];
+	const endings: string[] = [];
+	let crlf = 0, lf = 0;
+	let pos = 0;
+	while (pos < text.length) {
+		const nl = text.indexOf("\n", pos);
+		if (nl === -1) {
+			lines.push(text.slice(pos));
+			endings.push("");
+			break;
+		}
+		if (nl > pos && text[nl - 1] === "\r") {
+			lines.push(text.slice(pos, nl - 1));
+			endings.push("\r\n");
+			crlf++;
+		} else {
+			lines.push(text.slice(pos, nl));
+			endings.push("\n");
+			lf++;
+		}
+		pos = nl + 1;
+	}
+
+	return { lines, endings, eol: crlf > lf ? "\r\n" : "\n", bom };
+}
+
+/** Inverse of parseText. */
+export function formatText(file: TextFile): string {
+	let out = file.bom && file.lines.length > 0 ? BOM : "";
+	for (let i = 0; i < file.lines.length; i++) out += file.lines[i] + file.endings[i];
+	return out;
+}
+
+/** Whether the last line is terminated by a newline. */
+export function hasFinalNewline(file: TextFile): boolean {
+	return file.endings.length > 0 && file.endings[file.endings.length - 1] !== "";
+}
+
+/**
+ * Re-style parsed text (e.g. model-written content) to match an existing
+ * file's EOL and BOM. Unterminated lines stay unterminated.
+ */
+export function withStyle(file: TextFile, style: Pick<TextFile, "eol" | "bom">): TextFile {
+	return {
+		lines: file.lines,
+		endings: file.endings.map((e) => (e ? style.eol : "")),
+		eol: style.eol,
+		bom: style.bom,
+	};
+}
+
+/**
+ * Whether the start of a file (SNIFF_BYTES of it is enough) looks binary: it
+ * has NUL bytes, or more than one in ten bytes is a control character that
+ * text doesn't use. A UTF-16 BOM means text, NUL bytes and all.
+ */
+export function looksBinary(bytes: Buffer): boolean {
+	if (utf16Bom(bytes)) return false;
+	const sample = bytes.subarray(0, SNIFF_BYTES);
+	let control = 0;
+	for (const b of sample) {
+		if (b === 0) return true;
+		// Tab, newlines, form feed, backspace and escape occur in text
+		if ((b < 0x20 && !(b >= 0x08 && b <= 0x0d) && b !== 0x1b) || b === 0x7f) control++;
+	}
+	return control * 10 > sample.length;
+}
+
+/** The encoding a file's bytes are decoded from, or undefined if they look binary. */
+export function detectEncoding(bytes: Buffer): TextEncoding | undefined {
+	const utf16 = utf16Bom(bytes);
+	if (utf16) return utf16;
+	if (looksBinary(bytes)) return undefined;
+	return isUtf8(bytes) ? "utf-8" : "latin1";
+}
+
+function utf16Bom(bytes: Buffer): TextEncoding | undefined {
+	if (bytes[0] === 0xff && bytes[1] === 0xfe) return "utf-16le";
+	if (bytes[0] === 0xfe && bytes[1] === 0xff) return "utf-16be";
+	return undefined;
+}
+
+/** Decode bytes, keeping a BOM as "\uFEFF" (see parseText). */
+export function decodeText(bytes: Buffer, encoding: TextEncoding): string {
+	if (encoding === "utf-16le" || encoding === "utf-16be") return new TextDecoder(encoding, { ignoreBOM: true }).decode(bytes);
+	return bytes.toString(encoding);
+}
+
+/** Inverse of decodeText. Characters `encoding` can't represent are not written faithfully; see unencodable. */
+export function encodeText(text: string, encoding: TextEncoding): Buffer {
+	if (encoding === "utf-16be") return Buffer.from(text, "utf16le").swap16();
+	return Buffer.from(text, encoding === "utf-16le" ? "utf16le" : encoding);
+}
+
+/** The first character of `text` that `encoding` can't represent, if any: Latin-1 stops at U+00FF. */
+export function unencodable(text: string, encoding: TextEncoding): string | undefined {
+	return encoding === "latin1" ? text.match(/[^\u0000-\u00ff]/u)?.[0] : undefined;
+}
+
+/**
+ * Read, decode and parse a text file. `raw` is the decoded text, BOM
+ * included; `lossless` is whether encoding it again gives the file's bytes
+ * back (it doesn't for malformed UTF-16). Throws for a file that looks binary,
+ * naming it `displayPath`.
+ */
+export async function readTextFile(
+	filePath: string, displayPath = filePath,
+): Promise<{ file: TextFile; raw: string; encoding: TextEncoding; lossless: boolean }> {
+	const bytes = await readFile(filePath);
+	const encoding = detectEncoding(bytes);
+	if (!encoding) {
+		throw new Error(`${displayPath} looks like a binary file (it has NUL bytes or many control characters), not text.`);
+	}
+	const raw = decodeText(bytes, encoding);
+	return { file: parseText(raw), raw, encoding, lossless: encoding === "utf-8" || encodeText(raw, encoding).equals(bytes) };
+}
+
+/**
+ * Atomically replace (or create) `filePath` with `content`, encoded in `encoding`.
+ * Missing parent directories are created.
+ */
+export async function writeFileAtomic(filePath: string, content: string, encoding: TextEncoding = "utf-8"): Promise<void> {
+	await replaceFileAtomic(filePath, (tmp) => writeFile(tmp, encodeText(content, encoding), { flag: "wx" }));
+}
+
+/**
+ * Atomically replace (or create) `filePath` with whatever `write` puts in the
+ * temp file it is given, which must be created exclusively (flag "wx").
+ * Used directly to stream large files through (see stream.ts).
+ */
+export async function replaceFileAtomic(filePath: string, write: (tmp: string) => Promise<void>): Promise<void> {
+	const target = await resolveTarget(filePath);
+	const dir = path.dirname(target);
+	await mkdir(dir, { recursive: true });
+
+	let mode: number | undefined;
+	try {
+		mode = (await stat(target)).mode & 0o7777;
+	} catch (err) {
+		if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+	}
+
+	const tmp = path.join(dir, `.${path.basename(target)}.${randomBytes(6).toString("hex")}.tmp`);
+	try {
+		await write(tmp);
+		// Set explicitly — the mode option of writeFile is subject to umask
+		if (mode != null) await chmod(tmp, mode);
+		await rename(tmp, target);
+	} catch (err) {
+		await unlink(tmp).catch(() => {});
+		throw err;
+	}
+}
+
+/**
+ * Follow symlinks to the real file so the rename replaces the target, not the link.
+ * A dangling link resolves to the path it points at, which is then created.
+ */
+export async function resolveTarget(filePath: string): Promise<string> {
+	let current = path.resolve(filePath);
+	for (let hops = 0; hops < 40; hops++) {
+		try {
+			return await realpath(current);
+		} catch (err) {
+			if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+		}
+		try {
+			if (!(await lstat(current)).isSymbolicLink()) return current;
+		} catch (err) {
+			if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+			return current;
+		}
+		current = path.resolve(path.dirname(current), await readlink(current));
+	}
+	throw new Error(`Too many levels of symbolic links: ${filePath}`);
+}
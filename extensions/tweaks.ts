@@ -1,16 +1,131 @@
 /**
- * Tweaks — small session-level adjustments.
+ * Tweaks — session-level tool setup and the /hashline command.
+ *
+ * At session start, the tools in `tools.enable` of hh-read.json (config.ts)
+ * are activated and those in `tools.disable` deactivated: by default grep on
+ * (registered but not in the default active set) and the built-in edit and
+ * write off, in favor of change_file.
+ *
+ * /hashline shows the active tools and hash settings (settings.ts) and changes
+ * them for the rest of the session: `enable <tool>`, `disable <tool>`,
+ * `read on|off` (change_file by default), `width 2|3|4`, and `reset` back to
+ * the config. Without arguments it offers those changes in a menu.
  */
 
-import type { ExtensionAPI } from "@mariozechner/pi-coding-agent";
+import type { ExtensionAPI, ExtensionCommandContext, ExtensionContext } from "@mariozechner/pi-coding-agent";
+import { HASH_WIDTHS } from "./hashline.js";
+import { configuredHashSettings, hashSettings, overrideHashSettings, toolSettings } from "./settings.js";
+
+const SUBCOMMANDS = ["enable", "disable", "read", "width", "reset"];
 
 export default function (pi: ExtensionAPI) {
-  pi.on("session_start", async () => {
-    let active = pi.getActiveTools();
-    // Enable grep (registered but not in the default active set)
-    if (!active.includes("grep")) active = [...active, "grep"];
-    // Disable built-in edit/write — we use change_file (with hashline verification) instead
-    active = active.filter((name) => name !== "edit" && name !== "write");
-    pi.setActiveTools(active);
-  });
+	pi.on("session_start", async (_event, ctx) => {
+		try {
+			applyToolSettings(pi, ctx);
+		} catch (err) {
+			ctx.ui.notify(err instanceof Error ? err.message : String(err), "error");
+		}
+	});
+
+	pi.registerCommand("hashline", {
+		description: "Show or change tool and hash settings for this session: enable/disable <tool>, read on|off, width 2|3|4, reset",
+		getArgumentCompletions: (prefix) => {
+			const [word, arg] = prefix.trimStart().split(/\s+/, 2);
+			const values = arg === undefined ? SUBCOMMANDS
+				: word === "enable" || word === "disable" ? pi.getAllTools().map((t) => t.name)
+				: word === "read" ? ["on", "off"]
+				: word === "width" ? HASH_WIDTHS.map(String)
+				: [];
+			const partial = arg ?? word;
+			const items = values.filter((v) => v.startsWith(partial))
+				.map((v) => ({ value: arg === undefined ? v : `${word} ${v}`, label: v }));
+			return items.length > 0 ? items : null;
+		},
+		handler: async (args, ctx) => {
+			try {
+				const [command, value] = args.trim().split(/\s+/).filter(Boolean);
+				if (command == null && ctx.hasUI) return await pickChange(pi, ctx);
+				if (command != null) runCommand(pi, ctx, command, value);
+				ctx.ui.notify(describeSettings(pi, ctx), "info");
+			} catch (err) {
+				ctx.ui.notify(err instanceof Error ? err.message : String(err), "error");
+			}
+		},
+	});
+}
+
+/** Activate and deactivate tools as configured. Unknown tool names are reported, not fatal. */
+function applyToolSettings(pi: ExtensionAPI, ctx: ExtensionContext): void {
+	const { enable, disable } = toolSettings(ctx.cwd);
+	const known = new Set(pi.getAllTools().map((t) => t.name));
+	const unknown = [...enable, ...disable].filter((name) => !known.has(name));
+	if (unknown.length > 0) ctx.ui.notify(`hh-read.json names unknown tools: ${[...new Set(unknown)].join(", ")}.`, "warning");
+
+	let active = pi.getActiveTools().filter((name) => !disable.includes(name) || enable.includes(name));
+	for (const name of enable) if (known.has(name) && !active.includes(name)) active = [...active, name];
+	pi.setActiveTools(active);
+}
+
+function runCommand(pi: ExtensionAPI, ctx: ExtensionCommandContext, command: string, value: string | undefined): void {
+	switch (command) {
+		case "enable":
+		case "disable": {
+			if (value == null) throw new Error(`Usage: /hashline ${command} <tool>`);
+			if (!pi.getAllTools().some((t) => t.name === value)) throw new Error(`Unknown tool "${value}".`);
+			const active = pi.getActiveTools().filter((name) => name !== value);
+			pi.setActiveTools(command === "enable" ? [...active, value] : active);
+			return;
+		}
+		case "read":
+			if (value !== "on" && value !== "off") throw new Error("Usage: /hashline read on|off");
+			overrideHashSettings(ctx, { readChangeFile: value === "on" });
+			return;
+		case "width": {
+			const width = Number(value);
+			if (!HASH_WIDTHS.includes(width)) throw new Error(`Usage: /hashline width ${HASH_WIDTHS.join("|")}`);
+			overrideHashSettings(ctx, { width });
+			return;
+		}
+		case "reset":
+			overrideHashSettings(ctx, undefined);
+			applyToolSettings(pi, ctx);
+			return;
+		default:
+			throw new Error(`Unknown /hashline command "${command}": expected ${SUBCOMMANDS.join(", ")}.`);
+	}
+}
+
+/** Offer every change as a menu, headed by the current settings, and apply the one picked. */
+async function pickChange(pi: ExtensionAPI, ctx: ExtensionCommandContext): Promise<void> {
+	const active = pi.getActiveTools();
+	const { readChangeFile, width } = hashSettings(ctx);
+	const nextWidth = HASH_WIDTHS[(HASH_WIDTHS.indexOf(width) + 1) % HASH_WIDTHS.length];
+	const changes: [string, () => void][] = [
+		[`read: ${readChangeFile ? "don't tag" : "tag"} lines with hashes by default`,
+			() => runCommand(pi, ctx, "read", readChangeFile ? "off" : "on")],
+		[`Hash width: ${width} → ${nextWidth}`, () => runCommand(pi, ctx, "width", String(nextWidth))],
+		...pi.getAllTools().map((t): [string, () => void] => active.includes(t.name)
+			? [`Disable ${t.name}`, () => runCommand(pi, ctx, "disable", t.name)]
+			: [`Enable ${t.name}`, () => runCommand(pi, ctx, "enable", t.name)]),
+		["Reset to hh-read.json", () => runCommand(pi, ctx, "reset", undefined)],
+	];
+	const choice = await ctx.ui.select(describeSettings(pi, ctx), changes.map(([label]) => label));
+	const change = changes.find(([label]) => label === choice);
+	if (!change) return;
+	change[1]();
+	ctx.ui.notify(describeSettings(pi, ctx), "info");
+}
+
+function describeSettings(pi: ExtensionAPI, ctx: ExtensionCommandContext): string {
+	const active = pi.getActiveTools();
+	const inactive = pi.getAllTools().map((t) => t.name).filter((name) => !active.includes(name));
+	const current = hashSettings(ctx);
+	const configured = configuredHashSettings(ctx.cwd);
+	const note = (changed: boolean) => (changed ? " (this session)" : "");
+	return [
+		`Active tools: ${active.join(", ") || "none"}`,
+		`Inactive tools: ${inactive.join(", ") || "none"}`,
+		`read tags lines with hashes by default: ${current.readChangeFile ? "on" : "off"}${note(current.readChangeFile !== configured.readChangeFile)}`,
+		`Hash width: at least ${current.width}${note(current.width !== configured.width)}`,
+	].join("\n");
 }
@@ -0,0 +1,230 @@
+/**
+ * Undo — roll back change_file edits from the session journal (journal.ts).
+ *
+ * Registers the `undo_change` tool for the model, and `/undo` and `/redo`
+ * commands for the user. `/undo` without arguments lists recent edits with
+ * their diff summaries and rolls back everything down to the chosen one, so
+ * a bad streak of model edits can be reverted without git.
+ *
+ * Undos and redos are recorded in the session's edit log (editlog.ts) like
+ * the edits themselves, and carry the read snapshots (snapshots.ts) over to
+ * the restored content, as edits do: hashes of lines they didn't touch stay
+ * valid, restored lines need a re-read. `/editlog` lists the log and exports it, or a range
+ * of it, as a patch for `git apply` or as JSONL.
+ */
+
+import type { ExtensionAPI, ExtensionCommandContext, ExtensionContext } from "@mariozechner/pi-coding-agent";
+import { Type } from "@sinclair/typebox";
+import { mkdir, stat, writeFile } from "node:fs/promises";
+import * as path from "node:path";
+import { diffLines } from "./diff.js";
+import { describeLogEntry, editLog, formatJsonl, formatPatch, logChange, selectEntries } from "./editlog.js";
+import { hashWidth } from "./hashline.js";
+import {
+	describeChange, recentChanges, redoChange, undoChange, undoneChanges, type JournalEntry,
+} from "./journal.js";
+import { hashSettings } from "./settings.js";
+import { contentDigest, getSnapshot, recordEdit, transferSnapshot, type SnapshotChange } from "./snapshots.js";
+import { parseText } from "./textfile.js";
+
+/** Number of recent edits offered by /undo and listed by /editlog. */
+const LIST_LIMIT = 20;
+
+/** Where /editlog writes an export without a file argument, relative to the session's working directory. */
+const EXPORT_FILES = { patch: ".pi/edit-log.patch", jsonl: ".pi/edit-log.jsonl" };
+
+const undoSchema = Type.Object({
+	path: Type.Optional(Type.String({ description: "Only undo the most recent change to this file (default: most recent change to any file)" })),
+	redo: Type.Optional(Type.Boolean({ description: "If true, redo the most recently undone change instead. Default: false" })),
+});
+
+export default function (pi: ExtensionAPI) {
+	pi.registerTool({
+		name: "undo_change",
+		label: "Undo Change",
+		description:
+			"Undo the most recent change_file edit in this session (or the most recent one to path), restoring the file " +
+			"as it was before. A file created by change_file is deleted, and moves, copies and deletions are reversed. " +
+			"Pass redo: true to re-apply the last undone edit. " +
+			"Refuses if the file has been changed since by anything else. Hashes of lines it didn't restore stay valid; " +
+			"re-read the restored lines with change_file: true before editing them.",
+		parameters: undoSchema,
+		async execute(_id, params, _signal, _onUpdate, ctx) {
+			const absPath = params.path != null ? path.resolve(ctx.cwd, params.path) : undefined;
+			const entry = params.redo ? await redo(ctx, absPath) : await undo(ctx, absPath);
+			return { content: [{ type: "text", text: resultMessage(entry, !!params.redo) }], details: undefined };
+		},
+	});
+
+	pi.registerCommand("undo", {
+		description: "Undo change_file edits: pick from recent edits, or pass a path (\"list\" shows the journal)",
+		handler: async (args, ctx) => {
+			const arg = args.trim();
+			if (arg === "list") return listChanges(ctx);
+			if (arg) {
+				await run(ctx, () => undo(ctx, path.resolve(ctx.cwd, arg)), false);
+				return;
+			}
+
+			const recent = recentChanges(ctx).slice(0, LIST_LIMIT);
+			if (recent.length === 0) return ctx.ui.notify("Nothing to undo in this session.", "info");
+			if (!ctx.hasUI) {
+				await run(ctx, () => undo(ctx), false);
+				return;
+			}
+
+			const options = recent.map(describeChange);
+			const choice = await ctx.ui.select("Undo back to and including:", options);
+			if (choice == null) return;
+			const target = recent[options.indexOf(choice)];
+			// Roll back newest first, so every undo sees the content its own edit wrote
+			while (recentChanges(ctx).includes(target)) {
+				if (!(await run(ctx, () => undo(ctx), false))) break;
+			}
+		},
+	});
+
+	pi.registerCommand("redo", {
+		description: "Redo the last undone change_file edit (optionally for a path)",
+		handler: async (args, ctx) => {
+			const arg = args.trim();
+			await run(ctx, () => redo(ctx, arg ? path.resolve(ctx.cwd, arg) : undefined), true);
+		},
+	});
+
+	pi.registerCommand("editlog", {
+		description: "List this session's edits, or export them (optionally a range like 3-7) to a file: patch or jsonl [range] [file]",
+		handler: async (args, ctx) => {
+			try {
+				const [format, ...rest] = args.trim().split(/\s+/).filter(Boolean);
+				if (format == null || format === "list") return listLog(ctx);
+				if (format !== "patch" && format !== "jsonl") {
+					throw new Error(`Unknown /editlog command "${format}": expected list, patch or jsonl.`);
+				}
+				const range = rest[0] != null && /^[\d-]+$/.test(rest[0]) ? rest.shift() : undefined;
+				if (rest.length > 1) throw new Error(`Usage: /editlog ${format} [range] [file]`);
+				await exportLog(ctx, format, range, rest[0] ?? EXPORT_FILES[format]);
+			} catch (err) {
+				ctx.ui.notify(err instanceof Error ? err.message : String(err), "error");
+			}
+		},
+	});
+}
+
+async function undo(ctx: ExtensionContext, absPath?: string): Promise<JournalEntry> {
+	const entry = await undoChange(ctx, absPath);
+	await carrySnapshots(ctx, entry, false);
+	return logRollback(ctx, entry, false);
+}
+
+async function redo(ctx: ExtensionContext, absPath?: string): Promise<JournalEntry> {
+	const entry = await redoChange(ctx, absPath);
+	await carrySnapshots(ctx, entry, true);
+	return logRollback(ctx, entry, true);
+}
+
+/**
+ * Record the content an undo or redo restored as a new version of each file's
+ * read snapshot, as recordEdit does for edits, without marking the restored
+ * lines as shown. A file it deleted loses its snapshot.
+ */
+async function carrySnapshots(ctx: ExtensionContext, entry: JournalEntry, redo: boolean): Promise<void> {
+	for (const file of entry.files) {
+		const from = redo ? file.before : file.after;
+		const to = redo ? file.after : file.before;
+		const snap = getSnapshot(ctx, file.absPath);
+		if (to === undefined) transferSnapshot(ctx, file.absPath, undefined, { keep: false });
+		// Only a snapshot of the content replaced can be carried over
+		if (to === undefined || from === undefined || snap?.digest !== contentDigest(from)) continue;
+		const lines = parseText(to).lines;
+		const version = {
+			digest: contentDigest(to), mtimeMs: (await stat(file.absPath)).mtimeMs,
+			width: hashWidth(lines, hashSettings(ctx).width), lines,
+		};
+		recordEdit(ctx, file.absPath, version, lineChanges(parseText(from).lines, lines), { markWritten: false });
+	}
+}
+
+/** The changes that turn `before` into `after`, top to bottom. */
+function lineChanges(before: string[], after: string[]): SnapshotChange[] {
+	const changes: SnapshotChange[] = [];
+	let oldNext = 1;
+	let current: SnapshotChange | undefined;
+	for (const entry of diffLines(before, after)) {
+		if (entry.type === "c") {
+			current = undefined;
+			oldNext++;
+			continue;
+		}
+		if (!current) changes.push((current = { start: oldNext, removed: 0, lines: [] }));
+		if (entry.type === "a") {
+			current.lines.push(entry.text);
+		} else {
+			current.removed++;
+			oldNext++;
+		}
+	}
+	return changes;
+}
+
+/** Record an undo or redo in the edit log, as the change's files reversed (undo) or again (redo). */
+function logRollback(ctx: ExtensionContext, entry: JournalEntry, redo: boolean): JournalEntry {
+	logChange(ctx, {
+		mode: redo ? "redo" : "undo",
+		summary: `${redo ? "redid" : "undid"} #${entry.id}${entry.summary ? `: ${entry.summary}` : ""}`,
+		change: entry.id,
+		files: redo ? entry.files : entry.files.map((f) => ({ absPath: f.absPath, before: f.after, after: f.before, mode: f.mode })),
+	});
+	return entry;
+}
+
+/** Run one undo/redo and report it; returns false (after notifying) if it was refused. */
+async function run(ctx: ExtensionCommandContext, action: () => Promise<JournalEntry>, redo: boolean): Promise<boolean> {
+	try {
+		ctx.ui.notify(resultMessage(await action(), redo), "info");
+		return true;
+	} catch (err) {
+		ctx.ui.notify(err instanceof Error ? err.message : String(err), "error");
+		return false;
+	}
+}
+
+function listChanges(ctx: ExtensionCommandContext): void {
+	const recent = recentChanges(ctx).slice(0, LIST_LIMIT);
+	const undone = undoneChanges(ctx);
+	if (recent.length === 0 && undone.length === 0) return ctx.ui.notify("No change_file edits in this session.", "info");
+	const lines: string[] = [];
+	if (recent.length > 0) lines.push("Recent edits (newest first):", ...recent.map((e) => "  " + describeChange(e)));
+	if (undone.length > 0) lines.push("Undone (redo order):", ...undone.map((e) => "  " + describeChange(e)));
+	ctx.ui.notify(lines.join("\n"), "info");
+}
+
+function listLog(ctx: ExtensionCommandContext): void {
+	const entries = editLog(ctx);
+	if (entries.length === 0) return ctx.ui.notify("No change_file edits in this session.", "info");
+	const shown = entries.slice(-LIST_LIMIT);
+	const heading = shown.length < entries.length ? `Edit log (last ${shown.length} of ${entries.length}):` : "Edit log:";
+	ctx.ui.notify([heading, ...shown.map((e) => "  " + describeLogEntry(e))].join("\n"), "info");
+}
+
+/** Write the selected entries as a patch or JSONL to `file` (relative to the working directory). */
+async function exportLog(ctx: ExtensionCommandContext, format: "patch" | "jsonl", range: string | undefined, file: string): Promise<void> {
+	if (editLog(ctx).length === 0) return ctx.ui.notify("No change_file edits in this session.", "info");
+	const entries = selectEntries(ctx, range);
+	const absPath = path.resolve(ctx.cwd, file);
+	await mkdir(path.dirname(absPath), { recursive: true });
+	await writeFile(absPath, format === "patch" ? formatPatch(entries) : formatJsonl(entries));
+	const first = entries[0].seq, last = entries[entries.length - 1].seq;
+	const count = `${entries.length} ${entries.length === 1 ? "edit" : "edits"} (${first === last ? `#${first}` : `#${first}–#${last}`})`;
+	ctx.ui.notify(`Wrote ${count} to ${file}.` + (format === "patch" ? ` Apply it with: git apply ${file}` : ""), "info");
+}
+
+function resultMessage(entry: JournalEntry, redo: boolean): string {
+	const change = describeChange(entry);
+	if (redo) return `Redid ${change}.`;
+	const restored = entry.files.map((f) =>
+		f.before === undefined ? `deleted ${f.displayPath}`
+		: f.after === undefined ? `restored ${f.displayPath}`
+		: `${f.displayPath} is back to its content before that edit`);
+	return `Undid ${change}: ${restored.join(", ")}.`;
+}
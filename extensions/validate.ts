@@ -0,0 +1,188 @@
+/**
+ * Validate — checks run on a file right after change_file writes it.
+ *
+ * Validators are chosen by file glob from the "validators" section of
+ * hh-read.json (config.ts); `true` there means BUILTIN_VALIDATORS, and none
+ * run without it. Built-in validators parse JSON, YAML and
+ * TypeScript/JavaScript in-process; command validators run a local tool
+ * (formatter, linter) and fail on a non-zero exit.
+ * Diagnostics carry the line they refer to where one is known, so change_file
+ * can report them against the new hashes.
+ */
+
+import type { ExtensionAPI } from "@mariozechner/pi-coding-agent";
+import * as path from "node:path";
+import type { ValidatorConfig } from "./config.js";
+import { matchesGlob } from "./glob.js";
+
+// No-op extension export — see hashline.ts.
+export default function () {}
+
+export interface Diagnostic {
+	/** 1-indexed line in the written content, if known. */
+	line?: number;
+	message: string;
+}
+
+export interface ValidationResult {
+	name: string;
+	diagnostics: Diagnostic[];
+	/** Whether the validator asked for the edit to be reverted (revert_on_error and errors). */
+	revert: boolean;
+	/** Why the validator could not run, e.g. its package is not installed. */
+	skipped?: string;
+}
+
+/** What `"validators": true` runs. YAML and TypeScript need the project's yaml and typescript packages. */
+export const BUILTIN_VALIDATORS: ValidatorConfig[] = [
+	{ builtin: "json", files: ["*.json", "*.jsonc"] },
+	{ builtin: "yaml", files: ["*.{yml,yaml}"] },
+	{ builtin: "typescript", files: ["*.{ts,tsx,mts,cts,js,jsx,mjs,cjs}"] },
+];
+
+const DEFAULT_TIMEOUT = 30_000;
+/** Output lines of a failing command kept as diagnostics. */
+const MAX_OUTPUT_LINES = 20;
+
+type Exec = ExtensionAPI["exec"];
+
+/**
+ * Run every validator whose globs match `absPath` (relative to `cwd`).
+ * `content` is what was written. Only validators that reported errors or were
+ * skipped are returned.
+ */
+export async function runValidators(
+	exec: Exec, cwd: string, absPath: string, content: string,
+	validators: ValidatorConfig[] | boolean | undefined, signal?: AbortSignal,
+): Promise<ValidationResult[]> {
+	const rel = path.relative(cwd, absPath);
+	const results: ValidationResult[] = [];
+	for (const v of validators === true ? BUILTIN_VALIDATORS : validators || []) {
+		if (!matchesGlob(rel, v.files)) continue;
+		if (signal?.aborted) throw new Error("Operation aborted");
+		const name = v.name ?? v.builtin ?? v.command ?? "validator";
+		try {
+			const diagnostics = v.builtin != null
+				? await runBuiltin(v.builtin, absPath, content)
+				: v.command != null
+				? await runCommand(exec, v.command, cwd, absPath, v.timeout ?? DEFAULT_TIMEOUT, signal)
+				: [];
+			if (diagnostics.length > 0) results.push({ name, diagnostics, revert: !!v.revert_on_error });
+		} catch (err) {
+			results.push({ name, diagnostics: [], revert: false, skipped: err instanceof Error ? err.message : String(err) });
+		}
+	}
+	return results;
+}
+
+async function runBuiltin(builtin: string, absPath: string, content: string): Promise<Diagnostic[]> {
+	switch (builtin) {
+		case "json": return checkJson(absPath, content);
+		case "yaml": return checkYaml(content);
+		case "typescript": return checkTypeScript(absPath, content);
+		default: throw new Error(`unknown built-in validator "${builtin}" (expected json, yaml or typescript)`);
+	}
+}
+
+/** tsconfig.json and friends allow comments and trailing commas. */
+const JSONC_FILES = ["*.jsonc", "tsconfig*.json", "jsconfig*.json", ".vscode/*.json"];
+
+function checkJson(absPath: string, content: string): Diagnostic[] {
+	const text = matchesGlob(path.basename(path.dirname(absPath)) + "/" + path.basename(absPath), JSONC_FILES)
+		? blankJsonComments(content)
+		: content;
+	if (text.trim() === "") return [];
+	try {
+		JSON.parse(text.replace(/^\uFEFF/, ""));
+		return [];
+	} catch (err) {
+		const message = err instanceof Error ? err.message : String(err);
+		const at = message.match(/line (\d+)/);
+		const pos = message.match(/position (\d+)/);
+		const line = at ? +at[1] : pos ? content.slice(0, +pos[1]).split("\n").length : undefined;
+		return [{ line, message }];
+	}
+}
+
+/** Whitespace and comments, matched at lastIndex. */
+const SKIP = /(?:\s|\/\/[^\n]*|\/\*[\s\S]*?\*\/)*/y;
+
+/** Replace comments and trailing commas with spaces, keeping every other char (and newline) in place. */
+function blankJsonComments(text: string): string {
+	const out = text.split("");
+	for (let i = 0; i < out.length; i++) {
+		const ch = text[i];
+		if (ch === "\"") {
+			for (i++; i < text.length && text[i] !== "\"" && text[i] !== "\n"; i++) if (text[i] === "\\") i++;
+		} else if (ch === "/" && text[i + 1] === "/") {
+			for (; i < text.length && text[i] !== "\n"; i++) out[i] = " ";
+		} else if (ch === "/" && text[i + 1] === "*") {
+			const end = text.indexOf("*/", i + 2);
+			const stop = end < 0 ? text.length : end + 2;
+			for (; i < stop; i++) if (text[i] !== "\n") out[i] = " ";
+			i--;
+		} else if (ch === ",") {
+			SKIP.lastIndex = i + 1;
+			SKIP.exec(text);
+			if (text[SKIP.lastIndex] === "}" || text[SKIP.lastIndex] === "]") out[i] = " ";
+		}
+	}
+	return out.join("");
+}
+
+async function checkYaml(content: string): Promise<Diagnostic[]> {
+	const YAML = await importOptional<typeof import("yaml")>("yaml");
+	return YAML.parseAllDocuments(content).flatMap((doc) =>
+		("errors" in doc ? doc.errors : []).map((e) => ({ line: e.linePos?.[0]?.line, message: e.message.split("\n")[0].replace(/:$/, "") })));
+}
+
+async function checkTypeScript(absPath: string, content: string): Promise<Diagnostic[]> {
+	const ts = await importOptional<typeof import("typescript")>("typescript");
+	// transpileModule only parses, so this reports syntax errors, not type errors
+	const { diagnostics = [] } = ts.transpileModule(content, {
+		fileName: path.basename(absPath),
+		reportDiagnostics: true,
+		compilerOptions: { allowJs: true, jsx: ts.JsxEmit.Preserve, noEmit: true },
+	});
+	return diagnostics
+		.filter((d) => d.start != null && d.category === ts.DiagnosticCategory.Error)
+		.map((d) => ({
+			line: content.slice(0, d.start).split("\n").length,
+			message: ts.flattenDiagnosticMessageText(d.messageText, " "),
+		}));
+}
+
+async function importOptional<T>(pkg: string): Promise<T> {
+	try {
+		const mod: { default?: T } = await import(pkg);
+		return mod.default ?? (mod as T);
+	} catch {
+		throw new Error(`the ${pkg} package is not available`);
+	}
+}
+
+/**
+ * Run a shell command on the file. `{file}` in the command is replaced by the
+ * quoted path, which is appended if the command has no `{file}`. Output lines
+ * naming the file with a `:line` suffix are attributed to that line.
+ */
+async function runCommand(
+	exec: Exec, command: string, cwd: string, absPath: string, timeout: number, signal?: AbortSignal,
+): Promise<Diagnostic[]> {
+	const quoted = `'${absPath.replace(/'/g, "'\\''")}'`;
+	const script = command.includes("{file}") ? command.split("{file}").join(quoted) : `${command} ${quoted}`;
+	const result = await exec("sh", ["-c", script], { cwd, timeout, signal });
+	if (result.killed) return [{ message: `timed out after ${timeout}ms` }];
+	if (result.code === 0) return [];
+
+	const name = path.basename(absPath).replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+	const located = new RegExp(`${name}[:(](\\d+)`);
+	const lines = `${result.stdout}\n${result.stderr}`.split("\n").map((l) => l.trimEnd()).filter((l) => l.trim() !== "");
+	const diagnostics: Diagnostic[] = lines.slice(0, MAX_OUTPUT_LINES).map((message) => {
+		const m = message.match(located);
+		return { line: m ? +m[1] : undefined, message: message.trim() };
+	});
+	if (lines.length > MAX_OUTPUT_LINES) diagnostics.push({ message: `... ${lines.length - MAX_OUTPUT_LINES} more lines` });
+	if (diagnostics.length === 0) diagnostics.push({ message: `exited with code ${result.code}` });
+	return diagnostics;
+}
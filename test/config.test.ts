@@ -0,0 +1,50 @@
+import assert from "node:assert/strict";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import * as path from "node:path";
+import { after, describe, it } from "node:test";
+import { CONFIG_FILE, loadConfig } from "../extensions/config.js";
+
+const root = mkdtempSync(path.join(tmpdir(), "config-test-"));
+after(() => rmSync(root, { recursive: true, force: true }));
+
+/** A project whose .pi/hh-read.json holds `config`; returns its directory. */
+function project(config: unknown): string {
+	const dir = mkdtempSync(path.join(root, "project-"));
+	mkdirSync(path.join(dir, ".pi"));
+	writeFileSync(path.join(dir, ".pi", CONFIG_FILE), JSON.stringify(config));
+	return dir;
+}
+
+describe("loadConfig", () => {
+	it("reads a valid config, ignoring unknown keys", () => {
+		const config = loadConfig(project({
+			policy: { roots: ["src"], denyRead: true, future: 1 },
+			hashes: { width: 3 },
+			validators: [{ builtin: "json", files: ["*.json"], revert_on_error: true }],
+		}));
+		assert.deepEqual(config.policy, { roots: ["src"], denyRead: true, future: 1 });
+		assert.equal(config.hashes.width, 3);
+	});
+
+	const invalid: [string, unknown, RegExp][] = [
+		["a section that isn't an object", { policy: ["src"] }, /policy must be an object \(got \["src"\]\)/],
+		["a string for a list", { policy: { roots: "src" } }, /policy\.roots must be an array of strings \(got "src"\)/],
+		["a string for a flag", { approval: { always: "yes" } }, /approval\.always must be true or false/],
+		["a hash width out of range", { hashes: { width: 5 } }, /hashes\.width must be 2, 3 or 4 \(got 5\)/],
+		["validators that aren't a list", { validators: { builtin: "json" } }, /validators must be true, false or an array/],
+		["a validator without files", { validators: [{ builtin: "json" }] }, /validators\[0\]\.files is missing/],
+		["a validator with nothing to run", { validators: [{ files: ["*"] }] }, /validators\[0\] needs a builtin or a command/],
+		["a validator timeout that isn't a number", { validators: [{ command: "x", files: ["*"], timeout: "5s" }] }, /validators\[0\]\.timeout must be/],
+	];
+	for (const [name, config, message] of invalid) {
+		it(`rejects ${name}, naming the file and key`, () => {
+			const dir = project(config);
+			assert.throws(() => loadConfig(dir), (err: Error) => {
+				assert.ok(err.message.startsWith(`Invalid config in ${path.join(dir, ".pi", CONFIG_FILE)}: `), err.message);
+				assert.match(err.message, message);
+				return true;
+			});
+		});
+	}
+});
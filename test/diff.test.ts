@@ -0,0 +1,72 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { diffLines, type DiffEntry } from "../extensions/diff.js";
+
+/** Both sides of a diff, rebuilt from its entries. */
+function sides(entries: DiffEntry[]): { old: string[]; new: string[] } {
+	return {
+		old: entries.filter((e) => e.type !== "a").map((e) => e.text),
+		new: entries.filter((e) => e.type !== "r").map((e) => e.text),
+	};
+}
+
+const cost = (entries: DiffEntry[]) => entries.filter((e) => e.type !== "c").length;
+
+describe("diffLines", () => {
+	it("numbers removed and context lines in the old file, added lines in the new one", () => {
+		assert.deepEqual(diffLines(["a", "b", "c"], ["a", "x", "c", "d"]), [
+			{ type: "c", line: 1, text: "a" },
+			{ type: "r", line: 2, text: "b" },
+			{ type: "a", line: 2, text: "x" },
+			{ type: "c", line: 3, text: "c" },
+			{ type: "a", line: 4, text: "d" },
+		]);
+	});
+
+	it("puts removals before additions within a changed block", () => {
+		const types = diffLines(["a", "b", "c", "d"], ["a", "x", "y", "d"]).map((e) => e.type).join("");
+		assert.equal(types, "crraac");
+	});
+
+	it("finds a minimal edit script that rebuilds both sides", () => {
+		// Small alphabets make many equal lines, the hard case for the middle snake search
+		let seed = 7;
+		const random = (n: number) => (seed = (seed * 1103515245 + 12345) & 0x7fffffff) % n;
+		const minimal = (a: string[], b: string[]) => {
+			// LCS by dynamic programming: the edit cost is the lines outside it
+			const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+			for (let i = a.length - 1; i >= 0; i--) {
+				for (let j = b.length - 1; j >= 0; j--) {
+					lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+				}
+			}
+			return a.length + b.length - 2 * lcs[0][0];
+		};
+		for (let t = 0; t < 500; t++) {
+			const alphabet = 1 + random(4);
+			const a = Array.from({ length: random(25) }, () => String(random(alphabet)));
+			const b = Array.from({ length: random(25) }, () => String(random(alphabet)));
+			const entries = diffLines(a, b);
+			assert.deepEqual(sides(entries), { old: a, new: b });
+			assert.equal(cost(entries), minimal(a, b), `${a} → ${b}`);
+		}
+	});
+
+	it("replaces a rewritten file whole, in bounded time and memory", () => {
+		const a = Array.from({ length: 50_000 }, (_, i) => `old ${i}`);
+		const b = Array.from({ length: 50_000 }, (_, i) => `new ${i}`);
+		const started = Date.now();
+		const entries = diffLines(a, b);
+		assert.ok(Date.now() - started < 5000, "took over 5s");
+		assert.equal(cost(entries), 100_000);
+		assert.deepEqual(sides(entries), { old: a, new: b });
+	});
+
+	it("still finds scattered changes in a large file", () => {
+		const a = Array.from({ length: 20_000 }, (_, i) => `line ${i}`);
+		const b = a.map((line, i) => (i % 7 === 0 ? line + "!" : line));
+		const entries = diffLines(a, b);
+		assert.equal(cost(entries), 2 * Math.ceil(20_000 / 7));
+		assert.deepEqual(sides(entries), { old: a, new: b });
+	});
+});
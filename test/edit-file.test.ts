@@ -0,0 +1,171 @@
+import assert from "node:assert/strict";
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import * as path from "node:path";
+import { after, beforeEach, describe, it } from "node:test";
+import type { ExtensionAPI, ExtensionContext, ToolDefinition } from "@mariozechner/pi-coding-agent";
+import editFile from "../extensions/edit-file.js";
+import { ANCHOR_DRIFT } from "../extensions/hashline.js";
+import hhRead from "../extensions/hh-read.js";
+import undo from "../extensions/undo.js";
+
+const root = mkdtempSync(path.join(tmpdir(), "edit-file-test-"));
+after(() => rmSync(root, { recursive: true, force: true }));
+
+const tools = new Map<string, ToolDefinition>();
+const pi = {
+	registerTool: (tool: ToolDefinition) => tools.set(tool.name, tool),
+	registerCommand: () => {},
+	on: () => {},
+	getActiveTools: () => ["read", "change_file", "undo_change"],
+	getAllTools: () => [{ name: "read" }, { name: "change_file" }, { name: "undo_change" }],
+	exec: async () => ({ code: 0, stdout: "", stderr: "" }),
+} as unknown as ExtensionAPI;
+editFile(pi);
+hhRead(pi);
+undo(pi);
+
+let ctx: ExtensionContext;
+let session = 0;
+
+beforeEach(() => {
+	const id = `edit-file-${++session}`;
+	ctx = {
+		cwd: mkdtempSync(path.join(root, "work-")),
+		hasUI: false,
+		sessionManager: { getSessionId: () => id, getEntries: () => [], getBranch: () => [] },
+	} as unknown as ExtensionContext;
+});
+
+async function run(tool: string, params: Record<string, unknown>): Promise<string> {
+	const result = await tools.get(tool)!.execute("call", params as never, undefined, undefined, ctx);
+	return result.content.map((c) => (c.type === "text" ? c.text : "")).join("\n");
+}
+
+/** Write `name` and read it with anchors; returns the "<line>:<hash>" anchor of each line. */
+async function readAnchors(name: string, content: string): Promise<string[]> {
+	writeFileSync(path.join(ctx.cwd, name), content);
+	const output = await run("read", { path: name, change_file: true, anchors: true });
+	return output.split("\n").filter((l) => /^\d+:\w+\|/.test(l)).map((l) => l.slice(0, l.indexOf("|")));
+}
+
+const read = (name: string) => readFileSync(path.join(ctx.cwd, name), "utf-8");
+const lines = (n: number) => Array.from({ length: n }, (_, i) => `line ${i + 1}\n`).join("");
+
+describe("change_file edits", () => {
+	it("rejects overlapping ranges and leaves the file alone", async () => {
+		const a = await readAnchors("a.txt", lines(6));
+		await assert.rejects(
+			run("change_file", {
+				path: "a.txt",
+				edits: [
+					{ hash_start: a[1], hash_stop: a[3], content: "x" },
+					{ hash_start: a[3], hash_stop: a[4], content: "y" },
+				],
+			}),
+			/edits\[0\] \(lines 2-4\) and edits\[1\] \(lines 4-5\) overlap\. No changes were made\./,
+		);
+		assert.equal(read("a.txt"), lines(6));
+	});
+
+	it("rejects an insert inside a replaced range", async () => {
+		const a = await readAnchors("a.txt", lines(6));
+		await assert.rejects(
+			run("change_file", {
+				path: "a.txt",
+				edits: [
+					{ hash_start: a[1], hash_stop: a[3], content: "x" },
+					{ hash_start: a[2], content: "inserted" },
+				],
+			}),
+			/overlap/,
+		);
+	});
+
+	it("applies adjacent ranges and inserts at either edge of a range", async () => {
+		const a = await readAnchors("a.txt", lines(6));
+		await run("change_file", {
+			path: "a.txt",
+			edits: [
+				{ hash_start: a[3], hash_stop: a[4], content: "four-five" },
+				{ hash_start: a[1], content: "before two" },
+				{ hash_start: a[1], hash_stop: a[2], content: "two-three" },
+				{ hash_start: a[5], content: "after five" },
+			],
+		});
+		assert.equal(read("a.txt"), "line 1\nbefore two\ntwo-three\nfour-five\nafter five\nline 6\n");
+	});
+});
+
+describe("change_file anchors", () => {
+	it(`follows a "<line>:<hash>" anchor up to ${ANCHOR_DRIFT} lines from its line`, async () => {
+		const a = await readAnchors("a.txt", lines(30));
+		const [, hash] = a[19].split(":");
+		const output = await run("change_file", { path: "a.txt", hash_start: `${20 - ANCHOR_DRIFT}:${hash}`, hash_stop: a[19], content: "twenty" });
+		assert.match(output, /hash_start anchor "10:\w+" moved to line 20/);
+		assert.equal(read("a.txt"), lines(30).replace("line 20\n", "twenty\n"));
+	});
+
+	it("refuses an anchor whose hash is further away", async () => {
+		const a = await readAnchors("a.txt", lines(30));
+		const [, hash] = a[19].split(":");
+		await assert.rejects(
+			run("change_file", { path: "a.txt", hash_start: `${19 - ANCHOR_DRIFT}:${hash}`, hash_stop: a[19] }),
+			new RegExp(`not found: line ${19 - ANCHOR_DRIFT} has a different hash`),
+		);
+		assert.equal(read("a.txt"), lines(30));
+	});
+
+	it("refuses an anchor whose hash occurs twice nearby", async () => {
+		const content = lines(12).replace("line 3\n", "same\n").replace("line 9\n", "same\n");
+		const a = await readAnchors("a.txt", content);
+		const [, hash] = a[2].split(":");
+		await assert.rejects(
+			run("change_file", { path: "a.txt", hash_start: `6:${hash}`, content: "x" }),
+			/occurs at lines 3, 9 nearby/,
+		);
+		assert.equal(read("a.txt"), content);
+	});
+});
+
+describe("change_file validators", () => {
+	beforeEach(() => {
+		mkdirSync(path.join(ctx.cwd, ".pi"));
+		writeFileSync(path.join(ctx.cwd, ".pi", "hh-read.json"),
+			JSON.stringify({ validators: [{ builtin: "json", files: ["*.json"], revert_on_error: true }] }));
+	});
+
+	it("removes the directories it made for a new file it reverts", async () => {
+		mkdirSync(path.join(ctx.cwd, "src"));
+		await assert.rejects(
+			run("change_file", { path: "src/config/local/bad.json", content: "{ nope" }),
+			/so the new file was removed\. Nothing was changed; your hashes are still valid/,
+		);
+		assert.equal(existsSync(path.join(ctx.cwd, "src", "config")), false);
+		assert.equal(existsSync(path.join(ctx.cwd, "src")), true);
+	});
+});
+
+describe("undo_change", () => {
+	const mode = (name: string) => statSync(path.join(ctx.cwd, name)).mode & 0o777;
+
+	it("recreates a deleted file with its mode", async () => {
+		writeFileSync(path.join(ctx.cwd, "run.sh"), "#!/bin/sh\necho hi\n", { mode: 0o755 });
+		await readAnchors("run.sh", "#!/bin/sh\necho hi\n");
+		await run("change_file", { path: "run.sh", operation: "delete_file" });
+		assert.equal(existsSync(path.join(ctx.cwd, "run.sh")), false);
+		await run("undo_change", {});
+		assert.equal(read("run.sh"), "#!/bin/sh\necho hi\n");
+		assert.equal(mode("run.sh"), 0o755);
+	});
+
+	it("keeps the mode of a moved file through undo and redo", async () => {
+		writeFileSync(path.join(ctx.cwd, "a.sh"), "#!/bin/sh\n", { mode: 0o750 });
+		await readAnchors("a.sh", "#!/bin/sh\n");
+		await run("change_file", { path: "a.sh", operation: "move", destination: "b.sh" });
+		await run("undo_change", {});
+		assert.equal(mode("a.sh"), 0o750);
+		await run("undo_change", { redo: true });
+		assert.equal(mode("b.sh"), 0o750);
+	});
+});
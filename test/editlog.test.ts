@@ -0,0 +1,145 @@
+import assert from "node:assert/strict";
+import { execFileSync } from "node:child_process";
+import { chmodSync, cpSync, existsSync, mkdtempSync, readFileSync, rmSync, statSync, unlinkSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import * as path from "node:path";
+import { after, beforeEach, describe, it } from "node:test";
+import { diffLines } from "../extensions/diff.js";
+import { formatPatch, logChange, selectEntries, type LoggedFile } from "../extensions/editlog.js";
+
+const root = mkdtempSync(path.join(tmpdir(), "editlog-test-"));
+after(() => rmSync(root, { recursive: true, force: true }));
+
+let work: string;
+let session = 0;
+let ctx: Parameters<typeof logChange>[0];
+
+beforeEach(() => {
+	work = mkdtempSync(path.join(root, "work-"));
+	const id = `editlog-${++session}`;
+	ctx = { cwd: work, sessionManager: { getSessionId: () => id } } as unknown as typeof ctx;
+});
+
+const file = (name: string) => path.join(work, name);
+const read = (name: string) => (existsSync(file(name)) ? readFileSync(file(name), "utf-8") : undefined);
+
+/** Write (or delete, for undefined) each file and log the change, as change_file does. */
+function change(mode: string, contents: Record<string, string | undefined>): void {
+	const files: LoggedFile[] = [];
+	for (const [name, content] of Object.entries(contents)) {
+		const before = read(name);
+		const mode = existsSync(file(name)) ? statSync(file(name)).mode : undefined;
+		if (content === undefined) unlinkSync(file(name));
+		else writeFileSync(file(name), content);
+		files.push({ absPath: file(name), before, after: content, ...(content === undefined && { mode }) });
+	}
+	logChange(ctx, { mode, summary: "", files });
+}
+
+/** Copy of the working tree as it is now, as a git repository. */
+function snapshot(): string {
+	const dir = mkdtempSync(path.join(root, "snap-"));
+	cpSync(work, dir, { recursive: true });
+	execFileSync("git", ["init", "-q"], { cwd: dir });
+	return dir;
+}
+
+/** Apply the patch of `range` in `dir` and check it now matches the working tree. */
+function assertApplies(dir: string, range?: string): string {
+	const patch = formatPatch(selectEntries(ctx, range));
+	writeFileSync(path.join(root, "test.patch"), patch);
+	execFileSync("git", ["apply", path.join(root, "test.patch")], { cwd: dir });
+	const list = (d: string) => execFileSync("git", ["ls-files", "-o", "--exclude-standard"], { cwd: d }).toString();
+	assert.equal(list(dir), list(snapshot()));
+	for (const name of list(dir).split("\n").filter(Boolean)) {
+		assert.equal(readFileSync(path.join(dir, name), "utf-8"), read(name), name);
+		assert.equal(statSync(path.join(dir, name)).mode, statSync(file(name)).mode, name);
+	}
+	return patch;
+}
+
+const lines = (n: number, prefix = "line") => Array.from({ length: n }, (_, i) => `${prefix} ${i + 1}\n`).join("");
+
+describe("formatPatch", () => {
+	it("merges every edit to a file into one section", () => {
+		writeFileSync(file("a.txt"), lines(40));
+		const start = snapshot();
+		const original = read("a.txt")!;
+		change("replace", { "a.txt": original.replace("line 5\n", "five\n") });
+		change("insert", { "a.txt": read("a.txt")!.replace("line 30\n", "line 30\nextra\nmore\n") });
+		change("replace", { "a.txt": read("a.txt")!.replace("five\n", "FIVE\n").replace("line 31\n", "") });
+		change("delete", { "a.txt": read("a.txt")!.replace("line 40\n", "line 40") });
+		const patch = assertApplies(start);
+		assert.equal(patch.match(/^diff --git/gm)?.length, 1);
+		assert.match(patch, /^-line 5\n\+FIVE$/m);
+	});
+
+	it("applies a range on top of the tree before its first change", () => {
+		writeFileSync(file("a.txt"), lines(10));
+		change("replace", { "a.txt": read("a.txt")!.replace("line 2\n", "two\n") });
+		const middle = snapshot();
+		change("replace", { "a.txt": read("a.txt")!.replace("two\n", "2\n") });
+		change("replace", { "b.txt": "new\n" });
+		assertApplies(middle, "2-");
+	});
+
+	it("follows a file through a move into a single rename", () => {
+		writeFileSync(file("a.txt"), lines(20));
+		const start = snapshot();
+		change("replace", { "a.txt": read("a.txt")!.replace("line 3\n", "three\n") });
+		const moved = read("a.txt");
+		change("move", { "a.txt": undefined, "b.txt": moved });
+		change("replace", { "b.txt": read("b.txt")!.replace("line 18\n", "eighteen\n") });
+		const patch = assertApplies(start);
+		assert.match(patch, /^rename from a\.txt\nrename to b\.txt$/m);
+		assert.equal(patch.match(/^diff --git/gm)?.length, 1);
+	});
+
+	it("shows a file created and deleted within the range not at all, and a moved-back one as edited", () => {
+		writeFileSync(file("a.txt"), lines(5));
+		const start = snapshot();
+		change("create", { "tmp.txt": "scratch\n" });
+		change("delete_file", { "tmp.txt": undefined });
+		change("move", { "a.txt": undefined, "c.txt": lines(5) });
+		change("undo", { "c.txt": undefined, "a.txt": lines(5) });
+		change("replace", { "a.txt": lines(5).replace("line 1\n", "one\n") });
+		const patch = assertApplies(start);
+		assert.deepEqual(patch.match(/^diff --git .*$/gm), ["diff --git a/a.txt b/a.txt"]);
+	});
+
+	it("writes the modes of created and deleted files", () => {
+		writeFileSync(file("run.sh"), "#!/bin/sh\necho hi\n");
+		chmodSync(file("run.sh"), 0o755);
+		const start = snapshot();
+		change("delete_file", { "run.sh": undefined });
+		assert.match(formatPatch(selectEntries(ctx, undefined)), /^deleted file mode 100755$/m);
+		assertApplies(start);
+
+		const next = snapshot();
+		writeFileSync(file("new.sh"), "#!/bin/sh\n", { mode: 0o755 });
+		logChange(ctx, { mode: "create", summary: "", files: [{ absPath: file("new.sh"), after: "#!/bin/sh\n" }] });
+		assert.match(formatPatch(selectEntries(ctx, "2")), /^new file mode 100755$/m);
+		assertApplies(next, "2");
+	});
+
+	it("merges windowed edits of a large file", () => {
+		const before = lines(200).split(/(?<=\n)/).map((l) => l.slice(0, -1));
+		writeFileSync(file("big.log"), lines(200));
+		const start = snapshot();
+		let current = before;
+		const edit = (next: string[]) => {
+			const entries = diffLines(current, next).filter((e, i, all) =>
+				all.slice(Math.max(0, i - 3), i + 4).some((n) => n.type !== "c"));
+			writeFileSync(file("big.log"), next.map((l) => l + "\n").join(""));
+			logChange(ctx, { mode: "replace", summary: "", files: [{ absPath: file("big.log"), window: { entries, eol: "\n" } }] });
+			current = next;
+		};
+		edit(current.map((l) => (l === "line 50" ? "fifty" : l)));
+		edit([...current.slice(0, 10), "inserted", ...current.slice(10)]);
+		edit(current.filter((l) => l !== "fifty" && l !== "line 52"));
+		edit(current.map((l) => (l === "line 150" ? "x" : l === "line 151" ? "y" : l)));
+		const patch = assertApplies(start);
+		assert.equal(patch.match(/^diff --git/gm)?.length, 1);
+		assert.doesNotMatch(patch, /fifty/);
+	});
+});
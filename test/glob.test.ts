@@ -0,0 +1,41 @@
+import assert from "node:assert/strict";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import * as path from "node:path";
+import { after, describe, it } from "node:test";
+import { expandGlob, matchesGlob } from "../extensions/glob.js";
+
+describe("matchesGlob", () => {
+	it("matches a pattern without a slash at any depth, as .gitignore does", () => {
+		assert.ok(matchesGlob("a.ts", "*.ts"));
+		assert.ok(matchesGlob("src/deep/a.ts", "*.{ts,tsx}"));
+		assert.ok(!matchesGlob("src/a.ts", "lib/*.ts"));
+		assert.ok(matchesGlob("lib/x/y.ts", "lib/"));
+	});
+});
+
+describe("expandGlob", () => {
+	const root = mkdtempSync(path.join(tmpdir(), "glob-test-"));
+	after(() => rmSync(root, { recursive: true, force: true }));
+	for (const file of ["a.ts", "b.md", "src/c.ts", "src/sub/d.ts", "node_modules/e.ts"]) {
+		mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+		writeFileSync(path.join(root, file), "");
+	}
+	const expand = async (pattern: string) =>
+		(await expandGlob(root, pattern, 50)).map((f) => path.relative(root, f).split(path.sep).join("/"));
+
+	it("matches from the working directory, as a shell does", async () => {
+		assert.deepEqual(await expand("*.ts"), ["a.ts"]);
+		assert.deepEqual(await expand("./src/*.ts"), ["src/c.ts"]);
+		assert.deepEqual(await expand("src/*/*.ts"), ["src/sub/d.ts"]);
+	});
+
+	it("matches any depth with **, skipping node_modules", async () => {
+		assert.deepEqual(await expand("**/*.ts"), ["a.ts", "src/c.ts", "src/sub/d.ts"]);
+		assert.deepEqual(await expand("src/**/*.ts"), ["src/c.ts", "src/sub/d.ts"]);
+	});
+
+	it("stops one past the limit", async () => {
+		assert.equal((await expandGlob(root, "**/*", 1)).length, 2);
+	});
+});
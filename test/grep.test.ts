@@ -0,0 +1,60 @@
+import assert from "node:assert/strict";
+import { spawnSync } from "node:child_process";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import * as path from "node:path";
+import { after, before, describe, it } from "node:test";
+import type { ExtensionAPI, ExtensionContext, ToolDefinition } from "@mariozechner/pi-coding-agent";
+import hhGrep from "../extensions/hh-grep.js";
+import { getSnapshot } from "../extensions/snapshots.js";
+
+const root = mkdtempSync(path.join(tmpdir(), "grep-test-"));
+after(() => rmSync(root, { recursive: true, force: true }));
+
+let grep: ToolDefinition | undefined;
+hhGrep({ registerTool: (tool: ToolDefinition) => (grep = tool) } as unknown as ExtensionAPI);
+
+const ctx = {
+	cwd: root,
+	hasUI: false,
+	sessionManager: { getSessionId: () => "grep-test", getEntries: () => [], getBranch: () => [] },
+} as unknown as ExtensionContext;
+
+async function run(params: Record<string, unknown>): Promise<string> {
+	const result = await grep!.execute("call", params as never, undefined, undefined, ctx);
+	return result.content.map((c) => (c.type === "text" ? c.text : "")).join("\n");
+}
+
+// The built-in grep runs ripgrep, which only finds matches where it is installed
+const noRipgrep = spawnSync("rg", ["--version"]).error != null && "ripgrep (rg) is not installed";
+
+describe("grep with policy.denyRead", { skip: noRipgrep }, () => {
+	before(() => {
+		mkdirSync(path.join(root, ".pi"));
+		writeFileSync(path.join(root, ".pi", "hh-read.json"), JSON.stringify({ policy: { deny: ["secrets/"], denyRead: true } }));
+		mkdirSync(path.join(root, "secrets"));
+		writeFileSync(path.join(root, "secrets", "key.txt"), "token = hidden\n");
+		writeFileSync(path.join(root, "app.txt"), "first\ntoken = visible\nlast\n");
+	});
+
+	it("leaves out lines of denied files and names them", async () => {
+		const output = await run({ pattern: "token", context: 1 });
+		assert.match(output, /app\.txt:2: token = visible/);
+		assert.doesNotMatch(output, /hidden/);
+		assert.match(output, /policy denies reading it: secrets\/key\.txt/);
+	});
+
+	it("neither shows nor records anchors for denied files", async () => {
+		const output = await run({ pattern: "token", change_file: true });
+		assert.match(output, /^2:\w+\|token = visible$/m);
+		assert.doesNotMatch(output, /hidden/);
+		assert.match(output, /policy denies reading it: secrets\/key\.txt/);
+		assert.ok(getSnapshot(ctx, path.join(root, "app.txt")));
+		assert.equal(getSnapshot(ctx, path.join(root, "secrets", "key.txt")), undefined);
+	});
+
+	it("says no matches were found when all of them are denied", async () => {
+		assert.match(await run({ pattern: "hidden" }), /^No matches found\n\n\[Matches in 1 file not shown/);
+		assert.match(await run({ pattern: "hidden", change_file: true }), /^No matches found\n\n\[Matches in 1 file not shown/);
+	});
+});
@@ -0,0 +1,108 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import * as path from "node:path";
+import { after, describe, it } from "node:test";
+import type { SnapshotChange } from "../extensions/snapshots.js";
+import { lineArray, rewriteLines, scanLines, streamEncoding } from "../extensions/stream.js";
+
+const root = mkdtempSync(path.join(tmpdir(), "stream-test-"));
+after(() => rmSync(root, { recursive: true, force: true }));
+
+let count = 0;
+function tempFile(content: string | Buffer): string {
+	const file = path.join(root, `file-${++count}.txt`);
+	writeFileSync(file, content);
+	return file;
+}
+
+/** What rewriteLines should produce, applied to the whole text in memory. */
+function applyChanges(text: string, changes: SnapshotChange[], eol: string): string {
+	const lines = text.split(/(?<=\n)/);
+	for (const c of [...changes].reverse()) {
+		const last = c.start + c.removed - 1 === lines.length && !lines[lines.length - 1].endsWith("\n");
+		const added = c.lines.map((l, i) => l + (i < c.lines.length - 1 || !last ? eol : ""));
+		lines.splice(c.start - 1, c.removed, ...added);
+	}
+	return lines.join("");
+}
+
+describe("scanLines", () => {
+	it("returns the lines in the requested ranges, without endings", async () => {
+		const file = tempFile("one\ntwo\r\nthree\r\nfour\nfive");
+		const scanned = await scanLines(file, [{ from: 2, to: 3 }, { from: 5, to: 9 }]);
+		assert.deepEqual([...scanned.lines], [[2, "two"], [3, "three"], [5, "five"]]);
+		assert.equal(scanned.total, 5);
+		assert.equal(scanned.eol, "\r\n");
+		assert.deepEqual(lineArray(scanned.lines), ["", "two", "three", "", "five"]);
+	});
+
+	it("stops after the last range, without a total", async () => {
+		const file = tempFile("a\nb\nc\nd\n");
+		const scanned = await scanLines(file, [{ from: 1, to: 2 }]);
+		assert.deepEqual([...scanned.lines.values()], ["a", "b"]);
+		assert.equal(scanned.total, undefined);
+	});
+
+	it("skips a UTF-8 BOM and reads lines across chunks", async () => {
+		const lines = Array.from({ length: 150_000 }, (_, i) => `line ${i + 1} ${"x".repeat(i % 17)}`);
+		const file = tempFile("\uFEFF" + lines.join("\n") + "\n");
+		const wanted = [1, 2, 70_001, 149_999, 150_000];
+		const scanned = await scanLines(file, wanted.map((n) => ({ from: n, to: n })).concat({ from: 150_001, to: 150_002 }));
+		assert.deepEqual([...scanned.lines], wanted.map((n) => [n, lines[n - 1]]));
+		assert.equal(scanned.total, 150_000);
+	});
+
+	it("decodes Latin-1 and flags lines that aren't UTF-8", async () => {
+		const file = tempFile(Buffer.from("plain\ncafé\n", "latin1"));
+		assert.equal(streamEncoding(Buffer.from("café", "latin1")), "latin1");
+		assert.equal(streamEncoding(Buffer.from("\uFEFFx", "utf16le")), undefined);
+		assert.equal((await scanLines(file, [{ from: 1, to: 1 }])).malformed, false);
+		const utf8 = await scanLines(file, [{ from: 1, to: 2 }]);
+		assert.equal(utf8.malformed, true);
+		const latin1 = await scanLines(file, [{ from: 1, to: 2 }], undefined, "latin1");
+		assert.equal(latin1.malformed, false);
+		assert.equal(latin1.lines.get(2), "café");
+	});
+});
+
+describe("rewriteLines", () => {
+	const cases: [string, string, SnapshotChange[]][] = [
+		["inserts before a line", "a\nb\nc\n", [{ start: 2, removed: 0, lines: ["x", "y"] }]],
+		["appends past the last line", "a\nb\n", [{ start: 3, removed: 0, lines: ["c"] }]],
+		["replaces and deletes", "a\nb\nc\nd\ne\n", [{ start: 1, removed: 2, lines: ["A"] }, { start: 4, removed: 1, lines: [] }]],
+		["keeps a missing final newline", "a\nb\nc", [{ start: 3, removed: 1, lines: ["C", "D"] }]],
+		["replaces the last line of a file without a final newline", "a\nb", [{ start: 2, removed: 1, lines: ["B"] }]],
+	];
+	for (const [name, text, changes] of cases) {
+		it(name, async () => {
+			const file = tempFile(text);
+			await rewriteLines(file, changes, "\n");
+			assert.equal(readFileSync(file, "utf-8"), applyChanges(text, changes, "\n"));
+		});
+	}
+
+	it("copies untouched lines as bytes across chunks, with the given line ending", async () => {
+		const text = Array.from({ length: 200_000 }, (_, i) => `row ${i + 1}\r\n`).join("");
+		const changes: SnapshotChange[] = [
+			{ start: 1, removed: 1, lines: ["first"] },
+			{ start: 90_000, removed: 3, lines: ["middle"] },
+			{ start: 199_999, removed: 0, lines: ["near", "end"] },
+		];
+		const file = tempFile("\uFEFF" + text);
+		await rewriteLines(file, changes, "\r\n");
+		assert.equal(readFileSync(file, "utf-8"), "\uFEFF" + applyChanges(text, changes, "\r\n"));
+	});
+
+	it("writes new lines in the file's encoding", async () => {
+		const file = tempFile(Buffer.from("olé\nfin\n", "latin1"));
+		await rewriteLines(file, [{ start: 2, removed: 1, lines: ["déjà"] }], "\n", undefined, "latin1");
+		assert.ok(readFileSync(file).equals(Buffer.from("olé\ndéjà\n", "latin1")));
+	});
+
+	it("refuses changes past the end and leaves the file alone", async () => {
+		const file = tempFile("a\nb\n");
+		await assert.rejects(rewriteLines(file, [{ start: 5, removed: 1, lines: ["x"] }], "\n"), /ends before line 5/);
+		assert.equal(readFileSync(file, "utf-8"), "a\nb\n");
+	});
+});
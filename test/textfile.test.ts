@@ -0,0 +1,80 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import * as path from "node:path";
+import { after, describe, it } from "node:test";
+import {
+	decodeText, detectEncoding, encodeText, formatText, parseText, readTextFile, unencodable, writeFileAtomic,
+	type TextEncoding,
+} from "../extensions/textfile.js";
+
+const root = mkdtempSync(path.join(tmpdir(), "textfile-test-"));
+after(() => rmSync(root, { recursive: true, force: true }));
+
+describe("parseText / formatText", () => {
+	for (const text of ["", "a", "a\n", "a\r\nb\r\n", "a\nb\r\nc", "\uFEFFx\ny\n", "\n\n", "\r\n"]) {
+		it(`round-trips ${JSON.stringify(text)}`, () => {
+			assert.equal(formatText(parseText(text)), text);
+		});
+	}
+
+	it("takes the dominant line ending as the file's", () => {
+		assert.equal(parseText("a\r\nb\r\nc\n").eol, "\r\n");
+		assert.equal(parseText("a\nb\nc\r\n").eol, "\n");
+	});
+});
+
+describe("detectEncoding / decodeText / encodeText", () => {
+	const text = "\uFEFFcafé, naïve\r\nline 2\n";
+	const cases: [TextEncoding, Buffer][] = [
+		["utf-8", Buffer.from("café, naïve\n€\n", "utf-8")],
+		["latin1", Buffer.from("café, naïve\n", "latin1")],
+		["utf-16le", Buffer.from(text, "utf16le")],
+		["utf-16be", Buffer.from(text, "utf16le").swap16()],
+	];
+	for (const [encoding, bytes] of cases) {
+		it(`detects ${encoding} and writes the same bytes back`, () => {
+			assert.equal(detectEncoding(bytes), encoding);
+			const decoded = decodeText(bytes, encoding);
+			assert.ok(decoded.includes("naïve"));
+			assert.ok(encodeText(decoded, encoding).equals(bytes));
+		});
+	}
+
+	it("treats NUL bytes and many control characters as binary", () => {
+		assert.equal(detectEncoding(Buffer.from([0x61, 0x00, 0x62])), undefined);
+		assert.equal(detectEncoding(Buffer.from([1, 2, 3, 4, 0x61])), undefined);
+	});
+
+	it("finds characters Latin-1 can't represent", () => {
+		assert.equal(unencodable("café", "latin1"), undefined);
+		assert.equal(unencodable("5 €", "latin1"), "€");
+		assert.equal(unencodable("5 €", "utf-16le"), undefined);
+	});
+});
+
+describe("readTextFile / writeFileAtomic", () => {
+	it("writes a file back in the encoding it was read in", async () => {
+		const file = path.join(root, "latin1.txt");
+		writeFileSync(file, Buffer.from("olé\n", "latin1"));
+		const { raw, encoding, lossless } = await readTextFile(file);
+		assert.equal(encoding, "latin1");
+		assert.ok(lossless);
+		await writeFileAtomic(file, raw.replace("olé", "déjà vu"), encoding);
+		assert.ok(readFileSync(file).equals(Buffer.from("déjà vu\n", "latin1")));
+	});
+
+	it("reports UTF-16 with an unpaired surrogate as lossy", async () => {
+		const file = path.join(root, "broken.txt");
+		writeFileSync(file, Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from("ab", "utf16le"), Buffer.from([0x00, 0xd8])]));
+		const { encoding, lossless } = await readTextFile(file);
+		assert.equal(encoding, "utf-16le");
+		assert.equal(lossless, false);
+	});
+
+	it("refuses a binary file", async () => {
+		const file = path.join(root, "bin.dat");
+		writeFileSync(file, Buffer.from([0x7f, 0x45, 0x4c, 0x46, 0x00, 0x01]));
+		await assert.rejects(readTextFile(file, "bin.dat"), /bin\.dat looks like a binary file/);
+	});
+});